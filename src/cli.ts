@@ -1,30 +1,128 @@
 import { Args, Command, Options, Prompt } from "@effect/cli";
+import type { HttpClient } from "@effect/platform";
 import { BunContext, BunRuntime } from "@effect/platform-bun";
 import * as Terminal from "@effect/platform/Terminal";
-import { Console, Effect, Redacted } from "effect";
+import { Console, Effect, Option, Redacted } from "effect";
 import { spawn } from "child_process";
-import { existsSync, readFileSync } from "fs";
+import { closeSync, existsSync, openSync, readFileSync } from "fs";
+import { basename, resolve } from "path";
 import {
   loadConfig,
+  loadConfigFile,
+  loadDaemonConfig,
+  loadRetryConfig,
   saveConfig,
   saveEncryptedPem,
   loadEncryptedPem,
   encryptPem,
   decryptPem,
+  isLegacyPem,
   getConfigDir,
   getPemPath,
+  isValidProfileName,
+  resolveProfileName,
+  setDefaultProfile,
+  removeProfile,
+  DEFAULT_PROFILE,
   type AppConfig,
+  type DaemonConfig,
+  type WrapperConfig,
 } from "./services/ConfigService.ts";
 import { generateJwt } from "./services/JwtService.ts";
-import { makeTokenService } from "./services/TokenService.ts";
+import {
+  makeTokenService,
+  type InstallationToken,
+  type TokenScope,
+} from "./services/TokenService.ts";
+import {
+  getApp,
+  getInstallation,
+  getRepositoryInstallation,
+  GitHubApiBaseUrl,
+  GitHubRetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  listInstallations,
+  requestInstallationToken,
+  revokeInstallationToken,
+  type App,
+  type Installation,
+  type RetryPolicy,
+} from "./services/GitHubApiClient.ts";
+import {
+  loadTransport,
+  transportLayer,
+  type Transport,
+} from "./services/HttpTransport.ts";
+import { retryOnClockSkew } from "./services/ClockSkew.ts";
 import { makeDaemonService } from "./services/DaemonService.ts";
-import { makeSocketClient } from "./services/SocketClient.ts";
-import { runGh, runGit, CommandNotFound } from "./services/CommandExecutor.ts";
-import { DaemonNotRunning, SocketError } from "./errors.ts";
+import { DEFAULT_REFRESH_OPTIONS } from "./services/TokenRefresher.ts";
+import {
+  makeSocketClient,
+  type DaemonRequestError,
+  type SocketClient,
+} from "./services/SocketClient.ts";
+import {
+  runGh,
+  runGit,
+  runWithToken,
+  configureGitCredentialHelper,
+  getGitRemoteUrl,
+  isValidEnvName,
+  CommandNotFound,
+  DEFAULT_TOKEN_ENV,
+  type CommandFailed,
+} from "./services/CommandExecutor.ts";
+import {
+  AppCredentialsRejected,
+  ConfigParseError,
+  DaemonLocked,
+  DaemonNotRunning,
+  GitHubApiError,
+  InstallationMismatch,
+  ProfileNotLoaded,
+  SocketError,
+} from "./errors.ts";
 import { formatError } from "./format-error.ts";
 import { validatePem } from "./validate-pem.ts";
-import { getPidPath, getSocketPath } from "./paths.ts";
-import { readPemFromStream } from "./pem-input.ts";
+import {
+  getDaemonLogPath,
+  getPidPath,
+  getSecretPath,
+  getSocketPath,
+} from "./paths.ts";
+import {
+  findDownloadedPrivateKeys,
+  getDownloadDir,
+  readPemFromStream,
+} from "./pem-input.ts";
+import {
+  PASSWORD_FILE_ENV,
+  readPassword,
+  resolvePasswordSource,
+} from "./password-source.ts";
+import { parseTokenScope } from "./token-scope.ts";
+import {
+  findGhRepoArg,
+  findGitCloneUrl,
+  findGitDirectory,
+  parseRepoRef,
+  type RepoRef,
+} from "./repo-target.ts";
+import { parseDuration } from "./duration.ts";
+import { formatDaemonStatus } from "./daemon-status.ts";
+import { formatToken, shellQuote, tokenToJson } from "./token-output.ts";
+import {
+  GITHUB_DOT_COM,
+  isGitHubDotCom,
+  isValidHostname,
+  resolveGitHubHost,
+} from "./github-host.ts";
+import {
+  credentialMatchesHost,
+  formatCredentialResponse,
+  parseCredentialRequest,
+  readCredentialRequest,
+} from "./git-credential.ts";
 
 const verboseEnabled = process.argv.includes("--verbose");
 const ROOT_HELP = `apptoken v0.1.0
@@ -33,12 +131,24 @@ Usage:
   apptoken <command> [options]
 
 Commands:
-  init                      Interactive setup wizard
+  init                      Set up a profile (prompts, or flags for scripts)
   daemon start|stop|status  Manage daemon lifecycle
   gh <args...>              Run gh with injected token
   git <args...>             Run git with injected token
+  token [revoke]            Print or revoke installation tokens
+  installations list        List the app's installations
+  installations for <repo>  Show the installation covering owner/repo
+  exec -- <cmd> [args...]   Run any command with injected token
+  credential get|store|erase  Git credential helper (used by git)
+  setup-git                 Register apptoken as git credential helper
+  profile list|use|remove   Manage named profiles
+  lock                      Wipe keys and tokens from the running daemon
+  unlock                    Unlock the running daemon with your password
+  rekey                     Re-encrypt the stored PEM with current settings
+  passwd                    Change the password that encrypts the PEM
 
 Options:
+  --profile <name>          Use a named profile instead of the default
   --verbose                 Show detailed error output
   -h, --help                Show this help message
   --version                 Show version
@@ -53,6 +163,64 @@ function shouldShowRootHelp(argv: string[]): boolean {
   return false;
 }
 
+const BUILTIN_COMMANDS = new Set([
+  "init",
+  "daemon",
+  "gh",
+  "git",
+  "token",
+  "installations",
+  "exec",
+  "credential",
+  "setup-git",
+  "profile",
+  "lock",
+  "unlock",
+  "rekey",
+  "passwd",
+]);
+
+// Wrappers come from config so teams can add tools without a new release.
+// A broken config is reported by the command that needs it, not here.
+function loadWrapperConfigs(): Record<string, WrapperConfig> {
+  const result = Effect.runSync(Effect.either(loadConfigFile()));
+  if (result._tag === "Left") {
+    return {};
+  }
+
+  const wrappers: Record<string, WrapperConfig> = {};
+  for (const [name, wrapper] of Object.entries(result.right.wrappers ?? {})) {
+    if (BUILTIN_COMMANDS.has(name)) {
+      console.error(
+        `Ignoring wrapper '${name}': it conflicts with a built-in command.`,
+      );
+      continue;
+    }
+    const invalid = (wrapper.env ?? []).find((env) => !isValidEnvName(env));
+    if (!wrapper.command || invalid !== undefined) {
+      console.error(
+        `Ignoring wrapper '${name}': it needs a command and valid env names.`,
+      );
+      continue;
+    }
+    wrappers[name] = wrapper;
+  }
+  return wrappers;
+}
+
+function formatWrapperHelp(wrappers: Record<string, WrapperConfig>): string {
+  const names = Object.keys(wrappers);
+  if (names.length === 0) {
+    return "";
+  }
+
+  const lines = names.map(
+    (name) =>
+      `  ${(name + " <args...>").padEnd(26)}Run ${wrappers[name]!.command} with injected token`,
+  );
+  return "\nWrappers (from config):\n" + lines.join("\n") + "\n";
+}
+
 function readPemFromStdin() {
   return Effect.gen(function* () {
     yield* Effect.sync(() => {
@@ -67,59 +235,174 @@ function readPemFromStdin() {
   });
 }
 
-function makeTokenServiceFromConfig(pem: string, config: AppConfig) {
+// Proxy and CA settings for a profile's GitHub API. A relative caFile is
+// relative to the config directory.
+function loadProfileTransport(
+  config: Pick<AppConfig, "apiBaseUrl" | "gitHost" | "caFile">,
+) {
+  return loadTransport(
+    resolveGitHubHost(config).apiBaseUrl,
+    config.caFile !== undefined
+      ? resolve(getConfigDir(), config.caFile)
+      : undefined,
+  );
+}
+
+// The retry limits for GitHub API calls, with config overriding the defaults.
+function loadRetryPolicy() {
+  return Effect.gen(function* () {
+    const retry = yield* loadRetryConfig();
+    let maxRateLimitWaitMs: number | undefined;
+    if (retry.maxRateLimitWait !== undefined) {
+      maxRateLimitWaitMs = parseDuration(retry.maxRateLimitWait);
+      if (maxRateLimitWaitMs === undefined) {
+        return yield* new ConfigParseError({
+          message:
+            "Invalid retry.maxRateLimitWait in config. Use a duration like 30s or 2m.",
+        });
+      }
+    }
+
+    return {
+      ...DEFAULT_RETRY_POLICY,
+      ...(retry.maxRetries !== undefined
+        ? { maxRetries: retry.maxRetries }
+        : {}),
+      ...(maxRateLimitWaitMs !== undefined ? { maxRateLimitWaitMs } : {}),
+    } satisfies RetryPolicy;
+  });
+}
+
+// Runs an app-authenticated request, signing a new JWT and trying once more
+// if GitHub rejects the first one because this machine's clock is off.
+function withClockSkewRetry<A, E>(
+  pem: string,
+  appId: string,
+  jwt: string,
+  request: (jwt: string) => Effect.Effect<A, E>,
+) {
+  return retryOnClockSkew(request(jwt), () =>
+    Effect.flatMap(generateJwt(pem, appId), request),
+  );
+}
+
+function makeTokenServiceFromConfig(
+  pem: string,
+  config: AppConfig,
+  transport: Transport,
+  retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+) {
+  const { apiBaseUrl } = resolveGitHubHost(config);
+  const viaTransport = <A, E>(
+    request: Effect.Effect<A, E, HttpClient.HttpClient>,
+  ) =>
+    request.pipe(
+      Effect.provideService(GitHubApiBaseUrl, apiBaseUrl),
+      Effect.provideService(GitHubRetryPolicy, retryPolicy),
+      Effect.provide(transportLayer(transport)),
+    );
+
   return makeTokenService({
     pem,
     appId: config.appId,
     installationId: config.installationId,
     generateJwt,
-    requestInstallationToken: (jwt: string, installationId: string) =>
-      Effect.tryPromise({
-        try: async () => {
-          const res = await fetch(
-            `https://api.github.com/app/installations/${installationId}/access_tokens`,
-            {
-              method: "POST",
-              headers: {
-                authorization: `Bearer ${jwt}`,
-                accept: "application/vnd.github+json",
-              },
-            },
-          );
-          const body = (await res.json()) as {
-            token: string;
-            expires_at: string;
-          };
-          return {
-            token: body.token,
-            expiresAt: new Date(body.expires_at),
-          };
-        },
-        catch: (err) => err,
-      }),
+    requestInstallationToken: (
+      jwt: string,
+      installationId: string,
+      scope?: TokenScope,
+    ) =>
+      withClockSkewRetry(pem, config.appId, jwt, (signed) =>
+        viaTransport(requestInstallationToken(signed, installationId, scope)),
+      ),
+    requestRepositoryInstallation: (jwt: string, owner: string, repo: string) =>
+      withClockSkewRetry(pem, config.appId, jwt, (signed) =>
+        viaTransport(getRepositoryInstallation(signed, owner, repo)),
+      ),
+    revokeInstallationToken: (token: string) =>
+      viaTransport(revokeInstallationToken(token)),
   });
 }
 
-function startDaemonProcess(password: string): void {
+// Per-start daemon settings; each one overrides its counterpart in config.
+interface DaemonStartOptions {
+  readonly revokeOnStop?: boolean;
+  readonly idleTimeoutMs?: number;
+  readonly lifetimeMs?: number;
+}
+
+/** Resolves the daemon settings from config, with `options` taking priority. */
+function resolveDaemonSettings(
+  daemonConfig: DaemonConfig,
+  options: DaemonStartOptions,
+): DaemonStartOptions | { readonly error: string } {
+  const fromConfig = (key: "idleTimeout" | "lifetime") => {
+    const value = daemonConfig[key];
+    if (value === undefined) return undefined;
+    const ms = parseDuration(value);
+    return ms !== undefined && ms > 0 ? ms : null;
+  };
+
+  const idleTimeoutMs = options.idleTimeoutMs ?? fromConfig("idleTimeout");
+  const lifetimeMs = options.lifetimeMs ?? fromConfig("lifetime");
+  if (idleTimeoutMs === null || lifetimeMs === null) {
+    return {
+      error:
+        "Invalid daemon.idleTimeout or daemon.lifetime in config. Use a duration like 30m or 8h.",
+    };
+  }
+
+  return {
+    revokeOnStop: options.revokeOnStop ?? daemonConfig.revokeOnStop === true,
+    ...(idleTimeoutMs !== undefined ? { idleTimeoutMs } : {}),
+    ...(lifetimeMs !== undefined ? { lifetimeMs } : {}),
+  };
+}
+
+// Without a password the daemon starts locked.
+function startDaemonProcess(
+  password: string | undefined,
+  profile: string,
+  options: DaemonStartOptions = {},
+): void {
   const entry = process.argv[1];
   if (!entry) {
     throw new Error("Unable to determine CLI entry path");
   }
 
+  // Rejected connections and other diagnostics go to the daemon log
+  const logFd = openSync(getDaemonLogPath(), "a", 0o600);
   const child = spawn(process.execPath, [entry], {
     env: {
       ...process.env,
       APPTOKEN_DAEMON: "1",
-      APPTOKEN_PASSWORD: password,
+      ...(password !== undefined
+        ? { APPTOKEN_PASSWORD: password }
+        : { APPTOKEN_LOCKED: "1" }),
+      APPTOKEN_PROFILE: profile,
+      ...(options.revokeOnStop !== undefined
+        ? { APPTOKEN_REVOKE_ON_STOP: options.revokeOnStop ? "1" : "0" }
+        : {}),
+      ...(options.idleTimeoutMs !== undefined
+        ? { APPTOKEN_IDLE_TIMEOUT_MS: String(options.idleTimeoutMs) }
+        : {}),
+      ...(options.lifetimeMs !== undefined
+        ? { APPTOKEN_LIFETIME_MS: String(options.lifetimeMs) }
+        : {}),
     },
     detached: true,
-    stdio: "ignore",
+    stdio: ["ignore", "ignore", logFd],
   });
 
+  closeSync(logFd);
   child.unref();
 }
 
-function waitForDaemon(client: ReturnType<typeof makeSocketClient>) {
+function makeDaemonClient(): SocketClient {
+  return makeSocketClient(getSocketPath(), { secretPath: getSecretPath() });
+}
+
+function waitForDaemon(client: SocketClient) {
   return Effect.gen(function* () {
     let lastError: DaemonNotRunning | SocketError | undefined;
 
@@ -141,47 +424,63 @@ function waitForDaemon(client: ReturnType<typeof makeSocketClient>) {
   });
 }
 
-function runDaemon(password: string) {
+function loadProfileTokenService(profile: string, password: string) {
+  return Effect.gen(function* () {
+    const config = yield* loadConfig(undefined, profile);
+    const encrypted = yield* loadEncryptedPem(undefined, profile);
+    const pem = yield* decryptPem(encrypted, password);
+    const transport = yield* loadProfileTransport(config);
+    const retryPolicy = yield* loadRetryPolicy();
+    return makeTokenServiceFromConfig(pem, config, transport, retryPolicy);
+  });
+}
+
+// Without a password the daemon starts locked and waits for `unlock`.
+function runDaemon(
+  password: string | undefined,
+  profile: string,
+  options: DaemonStartOptions,
+) {
   return Effect.gen(function* () {
-    const configResult = yield* Effect.either(loadConfig());
+    let tokenService: ReturnType<typeof makeTokenServiceFromConfig> | undefined;
 
-    if (configResult._tag === "Left") {
-      yield* Console.error(
-        formatError(configResult.left, { verbose: verboseEnabled }),
+    if (password !== undefined) {
+      const loaded = yield* Effect.either(
+        loadProfileTokenService(profile, password),
       );
-      yield* Effect.sync(() => process.exit(1));
-      return;
-    }
-
-    const config = configResult.right;
 
-    const encryptedResult = yield* Effect.either(loadEncryptedPem());
+      if (loaded._tag === "Left") {
+        yield* Console.error(
+          formatError(loaded.left, { verbose: verboseEnabled }),
+        );
+        yield* Effect.sync(() => process.exit(1));
+        return;
+      }
 
-    if (encryptedResult._tag === "Left") {
-      yield* Console.error(
-        formatError(encryptedResult.left, { verbose: verboseEnabled }),
-      );
-      yield* Effect.sync(() => process.exit(1));
-      return;
+      tokenService = loaded.right;
     }
 
-    const decryptResult = yield* Effect.either(
-      decryptPem(encryptedResult.right, password),
+    const daemonConfig = yield* Effect.orElseSucceed(
+      loadDaemonConfig(),
+      (): DaemonConfig => ({}),
     );
+    const settings = resolveDaemonSettings(daemonConfig, options);
 
-    if (decryptResult._tag === "Left") {
-      yield* Console.error(formatError(decryptResult.left));
+    if ("error" in settings) {
+      yield* Console.error(settings.error);
       yield* Effect.sync(() => process.exit(1));
       return;
     }
 
-    const pem = decryptResult.right;
-    const tokenService = makeTokenServiceFromConfig(pem, config);
-
     const daemon = makeDaemonService({
       socketPath: getSocketPath(),
       pidPath: getPidPath(),
-      tokenService,
+      secretPath: getSecretPath(),
+      ...(tokenService ? { tokenService } : {}),
+      profile,
+      loadProfile: loadProfileTokenService,
+      refresh: DEFAULT_REFRESH_OPTIONS,
+      ...settings,
     });
 
     const startResult = yield* Effect.either(daemon.start());
@@ -197,381 +496,1740 @@ function runDaemon(password: string) {
     yield* Console.log("Daemon started. Socket: " + getSocketPath());
     yield* Console.log("PID: " + process.pid);
 
-    yield* Effect.async<never, never>(() => {
-      const shutdown = () => {
-        Effect.runPromise(daemon.stop()).then(() => process.exit(0));
-      };
-      process.on("SIGINT", shutdown);
-      process.on("SIGTERM", shutdown);
-    });
+    // The idle timeout and the lifetime end up here. runMain turns SIGINT
+    // and SIGTERM into interruption, which must clean up just the same.
+    yield* daemon
+      .awaitStop()
+      .pipe(Effect.onInterrupt(() => Effect.ignore(daemon.stop())));
+    yield* Effect.sync(() => process.exit(0));
   });
 }
 
 if (process.env["APPTOKEN_DAEMON"] === "1") {
   const password = process.env["APPTOKEN_PASSWORD"] ?? "";
+  const profile = process.env["APPTOKEN_PROFILE"] ?? DEFAULT_PROFILE;
+  const startLocked = process.env["APPTOKEN_LOCKED"] === "1";
   delete process.env["APPTOKEN_PASSWORD"];
 
-  if (!password) {
+  if (!password && !startLocked) {
     console.error("Missing daemon password. Restart daemon with a password.");
     process.exit(1);
   }
 
-  runDaemon(password).pipe(
+  const envMs = (name: string) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+  const idleTimeoutMs = envMs("APPTOKEN_IDLE_TIMEOUT_MS");
+  const lifetimeMs = envMs("APPTOKEN_LIFETIME_MS");
+  const revokeOnStop = process.env["APPTOKEN_REVOKE_ON_STOP"];
+
+  runDaemon(startLocked ? undefined : password, profile, {
+    ...(revokeOnStop === "1" || revokeOnStop === "0"
+      ? { revokeOnStop: revokeOnStop === "1" }
+      : {}),
+    ...(idleTimeoutMs !== undefined ? { idleTimeoutMs } : {}),
+    ...(lifetimeMs !== undefined ? { lifetimeMs } : {}),
+  }).pipe(
     Effect.provide(BunContext.layer),
     BunRuntime.runMain,
   );
 } else {
+  const wrapperConfigs = loadWrapperConfigs();
+
   if (shouldShowRootHelp(process.argv)) {
-    console.log(ROOT_HELP);
+    console.log(ROOT_HELP + formatWrapperHelp(wrapperConfigs));
     process.exit(0);
   }
 
-  // --- init command ---
-
-  const initCommand = Command.make("init", {}, () =>
-    Effect.gen(function* () {
-      const appId = yield* Prompt.text({
-        message: "GitHub App ID:",
-        validate: (value) =>
-          value.trim().length === 0
-            ? Effect.fail("App ID is required")
-            : Effect.succeed(value.trim()),
-      });
-
-      const installationId = yield* Prompt.text({
-        message: "Installation ID:",
-        validate: (value) =>
-          value.trim().length === 0
-            ? Effect.fail("Installation ID is required")
-            : Effect.succeed(value.trim()),
-      });
-
-      const password = yield* Prompt.password({
-        message: "Encryption password:",
-        validate: (value) =>
-          value.length < 4
-            ? Effect.fail("Password must be at least 4 characters")
-            : Effect.succeed(value),
-      });
-
-      const confirmPassword = yield* Prompt.password({
-        message: "Confirm password:",
-      });
-
-      if (Redacted.value(password) !== Redacted.value(confirmPassword)) {
-        yield* Console.error("Passwords do not match.");
-        return;
-      }
-
-      yield* Console.log(
-        "Paste PEM private key. Finish with the END line (-----END PRIVATE KEY----- or -----END RSA PRIVATE KEY-----).",
-      );
-      const pemResult = yield* Effect.either(readPemFromStdin());
-      if (pemResult._tag === "Left") {
-        if (Terminal.isQuitException(pemResult.left)) {
-          yield* Console.error("PEM input cancelled.");
-          return;
-        }
-        yield* Console.error("Failed to read PEM input.");
-        return;
-      }
-      const pem = pemResult.right.replace(/\r/g, "");
-      if (!pem.endsWith("\n")) {
-        yield* Effect.sync(() => {
-          process.stdout.write("\n");
-        });
-      }
-
-      const validation = validatePem(pem);
-      if (!validation.valid) {
-        yield* Console.error(validation.error ?? "Invalid PEM file");
-        return;
-      }
-
-      const encrypted = yield* encryptPem(pem, Redacted.value(password));
+  // --- shared options and profile helpers ---
 
-      // Save encrypted PEM and config
-      const config: AppConfig = {
-        appId,
-        installationId,
-        createdAt: new Date().toISOString(),
-      };
+  const profileOption = Options.text("profile").pipe(
+    Options.withDescription("Named profile to use instead of the default"),
+    Options.optional,
+  );
 
-      yield* saveEncryptedPem(encrypted);
-      yield* saveConfig(config);
+  const passwordStdinOption = Options.boolean("password-stdin").pipe(
+    Options.withDescription("Read the PEM password from stdin"),
+    Options.withDefault(false),
+  );
 
-      yield* Console.log("Configuration saved to " + getConfigDir());
-      yield* Console.log("Encrypted PEM stored at " + getPemPath());
-    }),
+  const repoOption = Options.text("repo").pipe(
+    Options.withDescription(
+      "Limit the token to a repository (owner/name); repeatable",
+    ),
+    Options.repeated,
   );
 
-  // --- daemon start command ---
+  const permissionOption = Options.text("permission").pipe(
+    Options.withDescription(
+      "Limit the token to a permission (e.g. contents=read); repeatable",
+    ),
+    Options.repeated,
+  );
 
-  const daemonStartCommand = Command.make("start", {}, () =>
-    Effect.gen(function* () {
-      const client = makeSocketClient(getSocketPath());
-      const pingResult = yield* Effect.either(client.ping());
+  // Commands that run another tool take the scope under names that tool does
+  // not use, so `apptoken gh pr list --repo acme/api` still reaches gh.
+  const tokenRepoOption = Options.text("token-repo").pipe(
+    Options.withDescription(
+      "Limit the token to a repository (owner/name); repeatable",
+    ),
+    Options.repeated,
+  );
 
-      if (pingResult._tag === "Right") {
-        yield* Console.error("Daemon is already running.");
-        return;
-      }
+  const tokenPermissionOption = Options.text("token-permission").pipe(
+    Options.withDescription(
+      "Limit the token to a permission (e.g. contents=read); repeatable",
+    ),
+    Options.repeated,
+  );
 
-      const configResult = yield* Effect.either(loadConfig());
+  function resolveProfile(profile: Option.Option<string>) {
+    return Effect.gen(function* () {
+      const result = yield* Effect.either(
+        Effect.flatMap(loadConfigFile(), (file) =>
+          resolveProfileName(file, Option.getOrUndefined(profile)),
+        ),
+      );
 
-      if (configResult._tag === "Left") {
+      if (result._tag === "Left") {
         yield* Console.error(
-          formatError(configResult.left, { verbose: verboseEnabled }),
+          formatError(result.left, { verbose: verboseEnabled }),
         );
-        return;
+        return yield* Effect.fail("abort" as const);
       }
 
-      const config = configResult.right;
-      const encryptedResult = yield* Effect.either(loadEncryptedPem());
+      return result.right;
+    });
+  }
+
+  function configuredPasswordSource(profile: string, passwordStdin = false) {
+    return Effect.map(
+      Effect.option(loadConfig(undefined, profile)),
+      (config) =>
+        resolvePasswordSource({
+          passwordStdin,
+          ...(Option.isSome(config) &&
+          config.value.passwordCommand !== undefined
+            ? { passwordCommand: config.value.passwordCommand }
+            : {}),
+        }),
+    );
+  }
+
+  // The password comes from --password-stdin, APPTOKEN_PASSWORD_FILE or the
+  // profile's passwordCommand when set, so daemons can start unattended.
+  // `prompt` asks on the terminal regardless.
+  function promptProfilePassword(
+    profile: string,
+    options: { passwordStdin?: boolean; prompt?: boolean } = {},
+  ) {
+    return Effect.gen(function* () {
+      const encryptedResult = yield* Effect.either(
+        loadEncryptedPem(undefined, profile),
+      );
 
       if (encryptedResult._tag === "Left") {
         yield* Console.error(
           formatError(encryptedResult.left, { verbose: verboseEnabled }),
         );
-        return;
+        return yield* Effect.fail("abort" as const);
       }
 
-      const password = yield* Prompt.password({
-        message: "Password to decrypt PEM:",
-      });
+      const source = options.prompt
+        ? undefined
+        : yield* configuredPasswordSource(profile, options.passwordStdin);
+
+      let password: string;
+      if (source === undefined) {
+        const typed = yield* Prompt.password({
+          message:
+            profile === DEFAULT_PROFILE
+              ? "Password to decrypt PEM:"
+              : `Password to decrypt PEM (${profile}):`,
+        });
+        password = Redacted.value(typed);
+      } else {
+        const sourced = yield* Effect.either(readPassword(source));
+        if (sourced._tag === "Left") {
+          yield* Console.error(
+            formatError(sourced.left, { verbose: verboseEnabled }),
+          );
+          return yield* Effect.fail("abort" as const);
+        }
+        password = sourced.right;
+      }
 
       const decryptResult = yield* Effect.either(
-        decryptPem(encryptedResult.right, Redacted.value(password)),
+        decryptPem(encryptedResult.right, password),
       );
 
       if (decryptResult._tag === "Left") {
         yield* Console.error(formatError(decryptResult.left));
-        return;
+        return yield* Effect.fail("abort" as const);
       }
 
-      startDaemonProcess(Redacted.value(password));
-
-      const waitResult = yield* Effect.either(waitForDaemon(client));
+      return {
+        password,
+        pem: decryptResult.right,
+        encrypted: encryptedResult.right,
+      };
+    });
+  }
 
-      if (waitResult._tag === "Left") {
-        yield* Console.error("Failed to start daemon.");
-        return;
-      }
+  function promptNewPassword(message: string) {
+    return Effect.gen(function* () {
+      const password = yield* Prompt.password({
+        message,
+        validate: (value) =>
+          value.length < 4
+            ? Effect.fail("Password must be at least 4 characters")
+            : Effect.succeed(value),
+      });
 
-      const pidPath = getPidPath();
-      const pid = existsSync(pidPath)
-        ? readFileSync(pidPath, "utf8").trim()
-        : "";
+      const confirmPassword = yield* Prompt.password({
+        message: "Confirm password:",
+      });
 
-      yield* Console.log("Daemon started. Socket: " + getSocketPath());
-      if (pid) {
-        yield* Console.log("PID: " + pid);
+      if (Redacted.value(password) !== Redacted.value(confirmPassword)) {
+        yield* Console.error("Passwords do not match.");
+        return yield* Effect.fail("abort" as const);
       }
-    }),
-  );
-
-  // --- daemon stop command ---
-
-  const daemonStopCommand = Command.make("stop", {}, () =>
-    Effect.gen(function* () {
-      const client = makeSocketClient(getSocketPath());
-      const pingResult = yield* Effect.either(client.ping());
 
-      if (pingResult._tag === "Left") {
-        yield* Console.error("Daemon is not running.");
-        return;
-      }
+      return Redacted.value(password);
+    });
+  }
 
-      // Read PID from PID file and send SIGTERM
-      const pidPath = getPidPath();
-      if (existsSync(pidPath)) {
-        const pidContent = readFileSync(pidPath, "utf8").trim();
-        const pid = parseInt(pidContent, 10);
-        if (!Number.isNaN(pid)) {
-          try {
-            process.kill(pid, "SIGTERM");
-            yield* Console.log("Daemon stopped (PID: " + pid + ").");
-          } catch {
-            yield* Console.error("Failed to stop daemon process.");
-          }
-        }
-      } else {
-        yield* Console.error("PID file not found.");
-      }
-    }),
-  );
+  type AppSettings = Pick<
+    AppConfig,
+    "appId" | "apiBaseUrl" | "gitHost" | "caFile"
+  >;
+
+  // Calls the GitHub API as the app itself, before any profile is saved
+  function requestAsApp<A, E>(
+    pem: string,
+    config: AppSettings,
+    request: (jwt: string) => Effect.Effect<A, E, HttpClient.HttpClient>,
+  ) {
+    return Effect.gen(function* () {
+      const transport = yield* loadProfileTransport(config);
+      const retryPolicy = yield* loadRetryPolicy();
+      const jwt = yield* generateJwt(pem, config.appId);
+      return yield* withClockSkewRetry(pem, config.appId, jwt, (signed) =>
+        request(signed).pipe(
+          Effect.provideService(
+            GitHubApiBaseUrl,
+            resolveGitHubHost(config).apiBaseUrl,
+          ),
+          Effect.provideService(GitHubRetryPolicy, retryPolicy),
+          Effect.provide(transportLayer(transport)),
+        ),
+      );
+    });
+  }
 
-  // --- daemon status command ---
+  function discoverInstallations(pem: string, config: AppSettings) {
+    return requestAsApp(pem, config, listInstallations);
+  }
 
-  const daemonStatusCommand = Command.make("status", {}, () =>
-    Effect.gen(function* () {
-      const client = makeSocketClient(getSocketPath());
-      const pingResult = yield* Effect.either(client.ping());
+  // GitHub refuses a JWT signed with another app's key (401), and a JWT
+  // naming an app that does not exist (404).
+  function verifyApp(pem: string, config: AppSettings) {
+    return Effect.gen(function* () {
+      const app = yield* requestAsApp(pem, config, getApp).pipe(
+        Effect.catchIf(
+          (error) =>
+            error instanceof GitHubApiError &&
+            (error.status === 401 || error.status === 404),
+          (error) =>
+            Effect.fail(
+              new AppCredentialsRejected({
+                appId: config.appId,
+                message: error.message,
+              }),
+            ),
+        ),
+      );
 
-      if (pingResult._tag === "Left") {
-        yield* Console.log("Daemon: stopped");
-        return;
+      if (app.id !== config.appId && app.clientId !== config.appId) {
+        return yield* new AppCredentialsRejected({
+          appId: config.appId,
+          message: `GitHub identified the key as ${app.name} (App ID ${app.id})`,
+        });
       }
+      return app;
+    });
+  }
 
-      const pidPath = getPidPath();
-      if (existsSync(pidPath)) {
-        const pidContent = readFileSync(pidPath, "utf8").trim();
-        yield* Console.log("Daemon: running (PID: " + pidContent + ")");
-      } else {
-        yield* Console.log("Daemon: running");
-      }
-    }),
-  );
+  function verifyInstallation(
+    pem: string,
+    config: AppSettings,
+    app: App,
+    installationId: string,
+  ) {
+    return requestAsApp(pem, config, (jwt) =>
+      getInstallation(jwt, installationId),
+    ).pipe(
+      Effect.catchIf(
+        (error) => error instanceof GitHubApiError && error.status === 404,
+        () =>
+          Effect.fail(
+            new InstallationMismatch({ installationId, appName: app.name }),
+          ),
+      ),
+    );
+  }
 
-  // --- daemon parent command ---
+  // The GitHub a profile talks to. Commands that cannot load the config
+  // report that themselves, so fall back to github.com here.
+  function loadGitHubHost(profile: Option.Option<string>) {
+    return loadConfig(undefined, Option.getOrUndefined(profile)).pipe(
+      Effect.map(resolveGitHubHost),
+      Effect.orElseSucceed(() => GITHUB_DOT_COM),
+    );
+  }
 
-  const daemonCommand = Command.make("daemon").pipe(
-    Command.withSubcommands([
-      daemonStartCommand,
-      daemonStopCommand,
-      daemonStatusCommand,
-    ]),
-  );
+  function describeInstallation(installation: Installation): string {
+    const repositories =
+      installation.repositorySelection === "all"
+        ? "all repositories"
+        : "selected repositories";
+    return `${installation.account} (${installation.accountType}, ${repositories})`;
+  }
 
-  // --- shared token acquisition ---
+  // --- init command ---
 
-  function acquireToken(opts: { noDaemonStart: boolean }) {
+  function promptInstallationId(
+    pem: string,
+    settings: AppSettings,
+    offline: boolean,
+  ) {
     return Effect.gen(function* () {
-      const socketPath = getSocketPath();
-      const client = makeSocketClient(socketPath);
-
-      // Try to get token
-      let tokenResult = yield* Effect.either(client.requestToken());
+      if (!offline) {
+        const discovered = yield* Effect.either(
+          discoverInstallations(pem, settings),
+        );
 
-      // Auto-start daemon if not running
-      if (
-        tokenResult._tag === "Left" &&
-        tokenResult.left instanceof DaemonNotRunning &&
-        !opts.noDaemonStart
-      ) {
+        if (discovered._tag === "Left") {
+          yield* Console.error(
+            "Could not list installations: " +
+              formatError(discovered.left, { verbose: verboseEnabled }),
+          );
+        } else if (discovered.right.length === 0) {
+          yield* Console.error(
+            "The app has no installations yet. Install it on an account first.",
+          );
+        } else {
+          return yield* Prompt.select({
+            message: "Installation:",
+            choices: discovered.right.map((installation) => ({
+              title: describeInstallation(installation),
+              description: `Installation ID ${installation.id}`,
+              value: installation.id,
+            })),
+          });
+        }
+      }
+
+      return yield* Prompt.text({
+        message: "Installation ID:",
+        validate: (value) =>
+          value.trim().length === 0
+            ? Effect.fail("Installation ID is required")
+            : Effect.succeed(value.trim()),
+      });
+    });
+  }
+
+  const hostnameOption = Options.text("hostname").pipe(
+    Options.withDescription(
+      "GitHub Enterprise Server host, e.g. ghe.example.com (default: github.com)",
+    ),
+    Options.optional,
+  );
+
+  const caFileOption = Options.text("ca-file").pipe(
+    Options.withDescription(
+      "PEM bundle of an internal CA to trust for GitHub API requests",
+    ),
+    Options.optional,
+  );
+
+  const appIdOption = Options.text("app-id").pipe(
+    Options.withDescription("GitHub App ID"),
+    Options.optional,
+  );
+
+  const installationIdOption = Options.text("installation-id").pipe(
+    Options.withDescription("Installation ID (skips listing installations)"),
+    Options.optional,
+  );
+
+  const pemFileOption = Options.text("pem-file").pipe(
+    Options.withDescription("Private key file, or - to read it from stdin"),
+    Options.optional,
+  );
+
+  const offlineOption = Options.boolean("offline").pipe(
+    Options.withDescription(
+      "Save without checking the App ID, key and installation with GitHub",
+    ),
+    Options.withDefault(false),
+  );
+
+  const forceOption = Options.boolean("force").pipe(
+    Options.withDescription("Overwrite the profile if it is already set up"),
+    Options.withDefault(false),
+  );
+
+  // Reads the key from --pem-file, stdin, or a downloaded key the user picks,
+  // falling back to pasting it.
+  function readInitPem(pemFile: string | undefined) {
+    return Effect.gen(function* () {
+      let path = pemFile;
+      if (path === undefined) {
+        const downloaded = findDownloadedPrivateKeys(getDownloadDir());
+        if (downloaded.length > 0) {
+          const picked = yield* Prompt.select({
+            message: "Private key:",
+            choices: [
+              ...downloaded.map((file) => ({
+                title: basename(file),
+                description: file,
+                value: Option.some(file),
+              })),
+              { title: "Paste the key", value: Option.none<string>() },
+            ],
+          });
+          path = Option.getOrUndefined(picked);
+        }
+      }
+
+      let pem: string;
+      if (path === "-") {
+        pem = yield* readPemFromStream(process.stdin);
+      } else if (path !== undefined) {
+        const read = yield* Effect.either(
+          Effect.try(() => readFileSync(path, "utf8")),
+        );
+        if (read._tag === "Left") {
+          yield* Console.error(`Cannot read PEM file ${path}.`);
+          return yield* Effect.fail("abort" as const);
+        }
+        pem = read.right;
+      } else {
+        yield* Console.log(
+          "Paste PEM private key. Finish with the END line (-----END PRIVATE KEY----- or -----END RSA PRIVATE KEY-----).",
+        );
+        const pasted = yield* Effect.either(readPemFromStdin());
+        if (pasted._tag === "Left") {
+          if (Terminal.isQuitException(pasted.left)) {
+            yield* Console.error("PEM input cancelled.");
+          } else {
+            yield* Console.error("Failed to read PEM input.");
+          }
+          return yield* Effect.fail("abort" as const);
+        }
+        pem = pasted.right;
+        if (!pem.endsWith("\n")) {
+          yield* Effect.sync(() => {
+            process.stdout.write("\n");
+          });
+        }
+      }
+
+      pem = pem.replace(/\r/g, "");
+      const validation = validatePem(pem);
+      if (!validation.valid) {
+        yield* Console.error(validation.error ?? "Invalid PEM file");
+        return yield* Effect.fail("abort" as const);
+      }
+      return pem;
+    });
+  }
+
+  const initCommand = Command.make(
+    "init",
+    {
+      profile: profileOption,
+      hostname: hostnameOption,
+      caFile: caFileOption,
+      appId: appIdOption,
+      installationId: installationIdOption,
+      pemFile: pemFileOption,
+      passwordStdin: passwordStdinOption,
+      offline: offlineOption,
+      force: forceOption,
+    },
+    ({
+      profile,
+      hostname,
+      caFile,
+      appId: appIdFlag,
+      installationId: installationIdFlag,
+      pemFile,
+      passwordStdin,
+      offline,
+      force,
+    }) =>
+      Effect.gen(function* () {
+        const fail = (message: string) =>
+          Effect.gen(function* () {
+            yield* Console.error(message);
+            yield* Effect.sync(() => {
+              process.exitCode = 1;
+            });
+          });
+
+        const existing = yield* Effect.either(loadConfigFile());
+        const profileName = Option.getOrElse(profile, () =>
+          existing._tag === "Right" && existing.right.defaultProfile
+            ? existing.right.defaultProfile
+            : DEFAULT_PROFILE,
+        );
+
+        if (!isValidProfileName(profileName)) {
+          return yield* fail(
+            "Invalid profile name. Use letters, digits, '.', '_' or '-'.",
+          );
+        }
+
+        const alreadySetUp =
+          (existing._tag === "Right" &&
+            Object.hasOwn(existing.right.profiles, profileName)) ||
+          existsSync(getPemPath(undefined, profileName));
+        if (alreadySetUp && !force) {
+          return yield* fail(
+            `Profile '${profileName}' is already set up. Pass --force to overwrite it.`,
+          );
+        }
+
+        const gitHost = Option.getOrUndefined(hostname)?.trim().toLowerCase();
+        if (gitHost !== undefined && !isValidHostname(gitHost)) {
+          return yield* fail(
+            "Invalid --hostname. Use a host name like ghe.example.com.",
+          );
+        }
+        const host = resolveGitHubHost(
+          gitHost !== undefined ? { gitHost } : {},
+        );
+
+        const caFilePath = Option.getOrUndefined(caFile);
+        if (caFilePath !== undefined && !existsSync(caFilePath)) {
+          return yield* fail(`CA bundle not found at ${caFilePath}.`);
+        }
+
+        const pemFilePath = Option.getOrUndefined(pemFile);
+        if (passwordStdin && pemFilePath === "-") {
+          return yield* fail(
+            "--password-stdin and --pem-file - cannot both read stdin.",
+          );
+        }
+
+        for (const [flag, value] of [
+          ["--app-id", appIdFlag],
+          ["--installation-id", installationIdFlag],
+        ] as const) {
+          if (Option.isSome(value) && value.value.trim().length === 0) {
+            return yield* fail(`${flag} must not be empty.`);
+          }
+        }
+
+        // Where the app's GitHub is and how to reach it
+        const connection = {
+          ...(isGitHubDotCom(host)
+            ? {}
+            : { apiBaseUrl: host.apiBaseUrl, gitHost: host.gitHost }),
+          ...(caFilePath !== undefined ? { caFile: resolve(caFilePath) } : {}),
+        };
+
+        const appId = Option.isSome(appIdFlag)
+          ? appIdFlag.value.trim()
+          : yield* Prompt.text({
+              message: "GitHub App ID:",
+              validate: (value) =>
+                value.trim().length === 0
+                  ? Effect.fail("App ID is required")
+                  : Effect.succeed(value.trim()),
+            });
+
+        let password: string;
+        const source = resolvePasswordSource({ passwordStdin });
+        if (source !== undefined) {
+          const sourced = yield* Effect.either(readPassword(source));
+          if (sourced._tag === "Left") {
+            return yield* fail(
+              formatError(sourced.left, { verbose: verboseEnabled }),
+            );
+          }
+          if (sourced.right.length < 4) {
+            return yield* fail("Password must be at least 4 characters.");
+          }
+          password = sourced.right;
+        } else {
+          const passwordResult = yield* Effect.either(
+            promptNewPassword("Encryption password:"),
+          );
+          if (passwordResult._tag === "Left") {
+            return yield* Effect.sync(() => {
+              process.exitCode = 1;
+            });
+          }
+          password = passwordResult.right;
+        }
+
+        const pemResult = yield* Effect.either(readInitPem(pemFilePath));
+        if (pemResult._tag === "Left") {
+          return yield* Effect.sync(() => {
+            process.exitCode = 1;
+          });
+        }
+        const pem = pemResult.right;
+        const settings = { appId, ...connection };
+
+        let app: App | undefined;
+        if (!offline) {
+          const verified = yield* Effect.either(verifyApp(pem, settings));
+          if (verified._tag === "Left") {
+            return yield* fail(
+              formatError(verified.left, { verbose: verboseEnabled }) +
+                "\nPass --offline to save without checking.",
+            );
+          }
+          app = verified.right;
+          yield* Console.log(`App: ${app.name} (App ID ${app.id})`);
+        }
+
+        const installationId = Option.isSome(installationIdFlag)
+          ? installationIdFlag.value.trim()
+          : yield* promptInstallationId(pem, settings, offline);
+
+        if (app !== undefined) {
+          const installation = yield* Effect.either(
+            verifyInstallation(pem, settings, app, installationId),
+          );
+          if (installation._tag === "Left") {
+            return yield* fail(
+              formatError(installation.left, { verbose: verboseEnabled }),
+            );
+          }
+          yield* Console.log(
+            `Installation: ${describeInstallation(installation.right)}`,
+          );
+        }
+
+        const encrypted = yield* encryptPem(pem, password);
+
+        // Save encrypted PEM and config
+        const config: AppConfig = {
+          appId,
+          installationId,
+          createdAt: new Date().toISOString(),
+          ...connection,
+        };
+
+        const saveResult = yield* Effect.either(
+          saveConfig(config, undefined, profileName),
+        );
+
+        if (saveResult._tag === "Left") {
+          return yield* fail(
+            formatError(saveResult.left, { verbose: verboseEnabled }),
+          );
+        }
+
+        yield* saveEncryptedPem(encrypted, undefined, profileName);
+
+        yield* Console.log(
+          "Configuration saved to " + getConfigDir() + ` (profile: ${profileName})`,
+        );
+        yield* Console.log(
+          "Encrypted PEM stored at " + getPemPath(undefined, profileName),
+        );
+      }),
+  );
+
+  // --- daemon start command ---
+
+  const revokeOnStop = Options.boolean("revoke-on-stop").pipe(
+    Options.withDescription("Revoke every issued token when the daemon stops"),
+    Options.withDefault(false),
+  );
+  const noRevokeOnStop = Options.boolean("no-revoke-on-stop").pipe(
+    Options.withDescription(
+      "Keep issued tokens when the daemon stops, overriding daemon.revokeOnStop",
+    ),
+    Options.withDefault(false),
+  );
+
+  const idleTimeout = Options.text("idle-timeout").pipe(
+    Options.withDescription("Stop after this long without requests (e.g. 30m)"),
+    Options.optional,
+  );
+  const lifetime = Options.text("lifetime").pipe(
+    Options.withDescription("Stop this long after starting (e.g. 8h)"),
+    Options.optional,
+  );
+
+  const startLocked = Options.boolean("locked").pipe(
+    Options.withDescription(
+      "Start without a password; run 'apptoken unlock' before use",
+    ),
+    Options.withDefault(false),
+  );
+
+  const daemonStartCommand = Command.make(
+    "start",
+    {
+      profile: profileOption,
+      revokeOnStop,
+      noRevokeOnStop,
+      idleTimeout,
+      lifetime,
+      locked: startLocked,
+      passwordStdin: passwordStdinOption,
+    },
+    ({
+      profile,
+      revokeOnStop,
+      noRevokeOnStop,
+      idleTimeout,
+      lifetime,
+      locked,
+      passwordStdin,
+    }) =>
+      Effect.gen(function* () {
+        const fail = (message: string) =>
+          Effect.gen(function* () {
+            yield* Console.error(message);
+            yield* Effect.sync(() => {
+              process.exitCode = 1;
+            });
+          });
+
+        if (revokeOnStop && noRevokeOnStop) {
+          return yield* fail(
+            "--revoke-on-stop and --no-revoke-on-stop cannot be combined.",
+          );
+        }
+
+        const durations: { idleTimeoutMs?: number; lifetimeMs?: number } = {};
+        for (const [flag, value, key] of [
+          ["--idle-timeout", idleTimeout, "idleTimeoutMs"],
+          ["--lifetime", lifetime, "lifetimeMs"],
+        ] as const) {
+          if (Option.isNone(value)) continue;
+          const ms = parseDuration(value.value);
+          if (ms === undefined || ms <= 0) {
+            return yield* fail(
+              `Invalid ${flag} '${value.value}'. Use a duration like 30m or 8h.`,
+            );
+          }
+          durations[key] = ms;
+        }
+
+        const daemonConfig = yield* Effect.either(loadDaemonConfig());
+        if (daemonConfig._tag === "Left") {
+          return yield* fail(
+            formatError(daemonConfig.left, { verbose: verboseEnabled }),
+          );
+        }
+        const settings = resolveDaemonSettings(daemonConfig.right, {
+          ...(revokeOnStop || noRevokeOnStop ? { revokeOnStop } : {}),
+          ...durations,
+        });
+        if ("error" in settings) {
+          return yield* fail(settings.error);
+        }
+
+        const profileResult = yield* Effect.either(resolveProfile(profile));
+
+        if (profileResult._tag === "Left") {
+          yield* Effect.sync(() => {
+            process.exitCode = 1;
+          });
+          return;
+        }
+
+        const profileName = profileResult.right;
+        const client = makeDaemonClient();
+        const pingResult = yield* Effect.either(client.ping());
+
+        if (pingResult._tag === "Right") {
+          const loaded = yield* Effect.either(client.listProfiles());
+
+          if (
+            !locked &&
+            loaded._tag === "Right" &&
+            !loaded.right.includes(profileName)
+          ) {
+            const passwordResult = yield* Effect.either(
+              promptProfilePassword(profileName, { passwordStdin }),
+            );
+
+            if (passwordResult._tag === "Left") {
+              yield* Effect.sync(() => {
+                process.exitCode = 1;
+              });
+              return;
+            }
+
+            const addResult = yield* Effect.either(
+              client.addProfile(profileName, passwordResult.right.password),
+            );
+
+            if (addResult._tag === "Left") {
+              yield* Console.error(
+                formatError(addResult.left, { verbose: verboseEnabled }),
+              );
+              yield* Effect.sync(() => {
+                process.exitCode = 1;
+              });
+              return;
+            }
+
+            yield* Console.log(
+              `Profile '${profileName}' loaded into running daemon.`,
+            );
+            return;
+          }
+
+          yield* Console.error("Daemon is already running.");
+          return;
+        }
+
+        let password: string | undefined;
+        if (!locked) {
+          const passwordResult = yield* Effect.either(
+            promptProfilePassword(profileName, { passwordStdin }),
+          );
+
+          if (passwordResult._tag === "Left") {
+            yield* Effect.sync(() => {
+              process.exitCode = 1;
+            });
+            return;
+          }
+          password = passwordResult.right.password;
+        }
+
+        startDaemonProcess(password, profileName, settings);
+
+        const waitResult = yield* Effect.either(waitForDaemon(client));
+
+        if (waitResult._tag === "Left") {
+          yield* Console.error("Failed to start daemon.");
+          return;
+        }
+
+        const pidPath = getPidPath();
+        const pid = existsSync(pidPath)
+          ? readFileSync(pidPath, "utf8").trim()
+          : "";
+
+        yield* Console.log(
+          `Daemon started${locked ? " (locked)" : ""}. Socket: ${getSocketPath()}`,
+        );
+        if (pid) {
+          yield* Console.log("PID: " + pid);
+        }
+      }),
+  );
+
+  // --- lock / unlock commands ---
+
+  const lockCommand = Command.make("lock", {}, () =>
+    Effect.gen(function* () {
+      const client = makeDaemonClient();
+      const result = yield* Effect.either(client.lock());
+
+      if (result._tag === "Left") {
+        yield* Console.error(
+          formatError(result.left, { verbose: verboseEnabled }),
+        );
+        yield* Effect.sync(() => {
+          process.exitCode = 1;
+        });
+        return;
+      }
+
+      yield* Console.log(
+        "Daemon locked. Private keys were wiped from memory and the token cache was cleared.",
+      );
+    }),
+  );
+
+  const unlockCommand = Command.make(
+    "unlock",
+    { profile: profileOption },
+    ({ profile }) =>
+      Effect.gen(function* () {
+        const fail = Effect.sync(() => {
+          process.exitCode = 1;
+        });
+
+        const profileResult = yield* Effect.either(resolveProfile(profile));
+        if (profileResult._tag === "Left") {
+          return yield* fail;
+        }
+
+        const profileName = profileResult.right;
+        const client = makeDaemonClient();
+        const pingResult = yield* Effect.either(client.ping());
+        if (pingResult._tag === "Left") {
+          yield* Console.error(
+            formatError(pingResult.left, { verbose: verboseEnabled }),
+          );
+          return yield* fail;
+        }
+
+        // Decrypting locally first reports a wrong password right away
+        const passwordResult = yield* Effect.either(
+          promptProfilePassword(profileName),
+        );
+        if (passwordResult._tag === "Left") {
+          return yield* fail;
+        }
+
+        const result = yield* Effect.either(
+          client.unlock(passwordResult.right.password, profileName),
+        );
+        if (result._tag === "Left") {
+          yield* Console.error(
+            formatError(result.left, { verbose: verboseEnabled }),
+          );
+          return yield* fail;
+        }
+
+        yield* Console.log(`Daemon unlocked (profile: ${profileName}).`);
+      }),
+  );
+
+  // --- rekey command ---
+
+  const rekeyCommand = Command.make(
+    "rekey",
+    { profile: profileOption },
+    ({ profile }) =>
+      Effect.gen(function* () {
+        const fail = Effect.sync(() => {
+          process.exitCode = 1;
+        });
+
+        const profileResult = yield* Effect.either(resolveProfile(profile));
+        if (profileResult._tag === "Left") {
+          return yield* fail;
+        }
+
+        const profileName = profileResult.right;
+        const passwordResult = yield* Effect.either(
+          promptProfilePassword(profileName),
+        );
+        if (passwordResult._tag === "Left") {
+          return yield* fail;
+        }
+
+        const { password, pem, encrypted } = passwordResult.right;
+        const reencrypted = yield* encryptPem(pem, password);
+        yield* saveEncryptedPem(reencrypted, undefined, profileName);
+
+        yield* Console.log(
+          isLegacyPem(encrypted)
+            ? `Upgraded the encrypted PEM from the legacy PBKDF2 format to scrypt (profile: ${profileName}).`
+            : `Re-encrypted the PEM with the current settings (profile: ${profileName}).`,
+        );
+      }),
+  );
+
+  // --- passwd command ---
+
+  const passwdCommand = Command.make(
+    "passwd",
+    { profile: profileOption },
+    ({ profile }) =>
+      Effect.gen(function* () {
+        const fail = Effect.sync(() => {
+          process.exitCode = 1;
+        });
+
+        const profileResult = yield* Effect.either(resolveProfile(profile));
+        if (profileResult._tag === "Left") {
+          return yield* fail;
+        }
+
+        const profileName = profileResult.right;
+        // A configured password source would supply the old password here
+        // and go on supplying it after the change, so always ask.
+        const currentResult = yield* Effect.either(
+          promptProfilePassword(profileName, { prompt: true }),
+        );
+        if (currentResult._tag === "Left") {
+          return yield* fail;
+        }
+
+        const passwordResult = yield* Effect.either(
+          promptNewPassword("New password:"),
+        );
+        if (passwordResult._tag === "Left") {
+          return yield* fail;
+        }
+
+        // A running daemon keeps the key it already decrypted; only the
+        // next unlock or start needs the new password.
+        const encrypted = yield* encryptPem(
+          currentResult.right.pem,
+          passwordResult.right,
+        );
+        yield* saveEncryptedPem(encrypted, undefined, profileName);
+
+        yield* Console.log(`Password changed (profile: ${profileName}).`);
+
+        const source = yield* configuredPasswordSource(profileName);
+        if (source?.kind === "file") {
+          yield* Console.error(
+            `Warning: ${PASSWORD_FILE_ENV} (${source.path}) still holds the old password. Update it before the next unlock or daemon start.`,
+          );
+        } else if (source?.kind === "command") {
+          yield* Console.error(
+            `Warning: passwordCommand '${source.command}' still prints the old password. Update what it reads before the next unlock or daemon start.`,
+          );
+        }
+      }),
+  );
+
+  // --- daemon stop command ---
+
+  const daemonStopCommand = Command.make("stop", {}, () =>
+    Effect.gen(function* () {
+      const client = makeDaemonClient();
+      const pingResult = yield* Effect.either(client.ping());
+
+      if (pingResult._tag === "Left") {
+        yield* Console.error("Daemon is not running.");
+        return;
+      }
+
+      // Read PID from PID file and send SIGTERM
+      const pidPath = getPidPath();
+      if (existsSync(pidPath)) {
+        const pidContent = readFileSync(pidPath, "utf8").trim();
+        const pid = parseInt(pidContent, 10);
+        if (!Number.isNaN(pid)) {
+          try {
+            process.kill(pid, "SIGTERM");
+            yield* Console.log("Daemon stopped (PID: " + pid + ").");
+          } catch {
+            yield* Console.error("Failed to stop daemon process.");
+          }
+        }
+      } else {
+        yield* Console.error("PID file not found.");
+      }
+    }),
+  );
+
+  // --- daemon status command ---
+
+  const daemonStatusJson = Options.boolean("json").pipe(
+    Options.withDescription("Print the daemon status as JSON"),
+    Options.withDefault(false),
+  );
+
+  const daemonStatusCommand = Command.make(
+    "status",
+    { json: daemonStatusJson },
+    ({ json }) =>
+      Effect.gen(function* () {
+        const client = makeDaemonClient();
+        const pingResult = yield* Effect.either(client.ping());
+
+        if (pingResult._tag === "Left") {
+          yield* Console.log(
+            json ? JSON.stringify({ running: false }) : "Daemon: stopped",
+          );
+          return;
+        }
+
+        const status = yield* Effect.either(client.status());
+        if (status._tag === "Right") {
+          yield* Console.log(
+            json
+              ? JSON.stringify({ running: true, ...status.right }, null, 2)
+              : formatDaemonStatus(status.right),
+          );
+          return;
+        }
+
+        // A daemon from an older version answers ping but not status.
+        const pidPath = getPidPath();
+        const pid = existsSync(pidPath)
+          ? Number(readFileSync(pidPath, "utf8").trim())
+          : undefined;
+        if (json) {
+          yield* Console.log(
+            JSON.stringify({ running: true, ...(pid ? { pid } : {}) }, null, 2),
+          );
+        } else {
+          yield* Console.log(
+            pid ? `Daemon: running (PID: ${pid})` : "Daemon: running",
+          );
+        }
+      }),
+  );
+
+  // --- daemon parent command ---
+
+  const daemonCommand = Command.make("daemon").pipe(
+    Command.withSubcommands([
+      daemonStartCommand,
+      daemonStopCommand,
+      daemonStatusCommand,
+    ]),
+  );
+
+  // --- shared daemon access ---
+
+  // Runs a daemon request, starting the daemon or loading the profile into
+  // it first when needed.
+  function requestFromDaemon<A>(
+    opts: { noDaemonStart: boolean; profile: string },
+    request: (
+      client: SocketClient,
+    ) => Effect.Effect<A, DaemonRequestError>,
+  ) {
+    return Effect.gen(function* () {
+      const { profile } = opts;
+      const client = makeDaemonClient();
+
+      let result = yield* Effect.either(request(client));
+
+      // Auto-start daemon if not running
+      if (
+        result._tag === "Left" &&
+        result.left instanceof DaemonNotRunning &&
+        !opts.noDaemonStart
+      ) {
         yield* Console.error("Daemon not running. Starting...");
 
-        const configResult = yield* Effect.either(loadConfig());
+        const { password } = yield* promptProfilePassword(profile);
 
-        if (configResult._tag === "Left") {
+        startDaemonProcess(password, profile);
+
+        const waitResult = yield* Effect.either(waitForDaemon(client));
+        if (waitResult._tag === "Left") {
+          yield* Console.error("Failed to start daemon.");
+          return yield* Effect.fail("abort" as const);
+        }
+
+        result = yield* Effect.either(request(client));
+      }
+
+      // Unlock a daemon that was locked (or started locked)
+      if (
+        result._tag === "Left" &&
+        result.left instanceof DaemonLocked &&
+        !opts.noDaemonStart
+      ) {
+        yield* Console.error("Daemon is locked. Unlocking...");
+
+        const { password } = yield* promptProfilePassword(profile);
+
+        const unlockResult = yield* Effect.either(
+          client.unlock(password, profile),
+        );
+        if (unlockResult._tag === "Left") {
           yield* Console.error(
-            formatError(configResult.left, { verbose: verboseEnabled }),
+            formatError(unlockResult.left, { verbose: verboseEnabled }),
+          );
+          return yield* Effect.fail("abort" as const);
+        }
+
+        result = yield* Effect.either(request(client));
+      }
+
+      // Load the profile into a daemon that is serving other profiles
+      if (
+        result._tag === "Left" &&
+        result.left instanceof ProfileNotLoaded &&
+        !opts.noDaemonStart
+      ) {
+        yield* Console.error(
+          `Profile '${profile}' not loaded in daemon. Loading...`,
+        );
+
+        const { password } = yield* promptProfilePassword(profile);
+
+        const addResult = yield* Effect.either(
+          client.addProfile(profile, password),
+        );
+        if (addResult._tag === "Left") {
+          yield* Console.error(
+            formatError(addResult.left, { verbose: verboseEnabled }),
           );
           return yield* Effect.fail("abort" as const);
         }
 
-        const config = configResult.right;
+        result = yield* Effect.either(request(client));
+      }
+
+      if (result._tag === "Left") {
+        yield* Console.error(
+          formatError(result.left, { verbose: verboseEnabled }),
+        );
+        return yield* Effect.fail("abort" as const);
+      }
+
+      return result.right;
+    });
+  }
+
+  // --- shared token acquisition ---
+
+  function acquireToken(opts: {
+    noDaemonStart: boolean;
+    profile: Option.Option<string>;
+    repos: ReadonlyArray<string>;
+    permissions: ReadonlyArray<string>;
+    minRemainingMs?: number;
+    /** Repository the token is for; picks the installation that covers it. */
+    target?: RepoRef;
+  }) {
+    return Effect.gen(function* () {
+      const profile = yield* resolveProfile(opts.profile);
+      const parsedScope = parseTokenScope(opts.repos, opts.permissions);
+
+      if (parsedScope.error) {
+        yield* Console.error(parsedScope.error);
+        return yield* Effect.fail("abort" as const);
+      }
+
+      // An explicit scoped repository names the repository more precisely than
+      // anything inferred from the wrapped command.
+      const scopedRepo = parsedScope.scope?.repositories?.[0];
+      const target =
+        parsedScope.owner !== undefined && scopedRepo !== undefined
+          ? { owner: parsedScope.owner, name: scopedRepo }
+          : opts.target;
+
+      const request = {
+        profile,
+        ...(parsedScope.scope ? { scope: parsedScope.scope } : {}),
+        ...(opts.minRemainingMs !== undefined
+          ? { minRemainingMs: opts.minRemainingMs }
+          : {}),
+      };
+
+      return yield* requestFromDaemon(
+        { noDaemonStart: opts.noDaemonStart, profile },
+        (client) =>
+          Effect.gen(function* () {
+            if (target === undefined) {
+              return yield* client.requestToken(request);
+            }
+
+            const resolved = yield* Effect.either(
+              client.resolveInstallation({
+                profile,
+                owner: target.owner,
+                repo: target.name,
+              }),
+            );
+
+            if (resolved._tag === "Left") {
+              const error = resolved.left;
+              if (
+                error instanceof DaemonNotRunning ||
+                error instanceof ProfileNotLoaded ||
+                error instanceof DaemonLocked
+              ) {
+                return yield* Effect.fail(error);
+              }
+              yield* Console.error(
+                `Could not resolve the installation for ${target.owner}/${target.name}; using the configured installation.`,
+              );
+              return yield* client.requestToken(request);
+            }
+
+            return yield* client.requestToken({
+              ...request,
+              installationId: resolved.right.id,
+            });
+          }),
+      );
+    });
+  }
+
+  // Finds the repository a gh invocation targets: -R/--repo, GH_REPO, or
+  // the current directory's origin remote.
+  function ghTarget(args: ReadonlyArray<string>, host: string) {
+    return Effect.gen(function* () {
+      const explicit = findGhRepoArg(args) ?? process.env.GH_REPO;
+      if (explicit !== undefined) {
+        return parseRepoRef(explicit, host);
+      }
+      const origin = yield* getGitRemoteUrl("origin");
+      return origin !== undefined ? parseRepoRef(origin, host) : undefined;
+    });
+  }
+
+  // Finds the repository a git invocation targets: the URL given to clone,
+  // or the origin remote of the directory git runs in.
+  function gitTarget(args: ReadonlyArray<string>, host: string) {
+    return Effect.gen(function* () {
+      const cloneUrl = findGitCloneUrl(args);
+      if (cloneUrl !== undefined) {
+        return parseRepoRef(cloneUrl, host);
+      }
+      const origin = yield* getGitRemoteUrl("origin", findGitDirectory(args));
+      return origin !== undefined ? parseRepoRef(origin, host) : undefined;
+    });
+  }
+
+  // --- shared command runner ---
+
+  function runWithAcquiredToken(
+    opts: Parameters<typeof acquireToken>[0],
+    run: (
+      token: InstallationToken,
+    ) => Effect.Effect<unknown, CommandNotFound | CommandFailed>,
+  ) {
+    return Effect.gen(function* () {
+      const tokenResult = yield* Effect.either(acquireToken(opts));
+
+      if (tokenResult._tag === "Left") {
+        yield* Effect.sync(() => {
+          process.exitCode = 1;
+        });
+        return;
+      }
+
+      const result = yield* Effect.either(run(tokenResult.right));
+
+      if (result._tag === "Left") {
+        const error = result.left;
+        if (error instanceof CommandNotFound) {
+          yield* Console.error(formatError(error, { verbose: verboseEnabled }));
+          yield* Effect.sync(() => {
+            process.exitCode = 127;
+          });
+        } else {
+          yield* Effect.sync(() => {
+            process.exitCode = error.exitCode;
+          });
+        }
+      }
+    });
+  }
+
+  // --- gh command ---
 
-        const encryptedResult = yield* Effect.either(loadEncryptedPem());
+  const ghArgs = Args.text({ name: "args" }).pipe(Args.repeated);
+  const noDaemonStart = Options.boolean("no-daemon-start").pipe(
+    Options.withDefault(false),
+  );
 
-        if (encryptedResult._tag === "Left") {
-          yield* Console.error(
-            formatError(encryptedResult.left, { verbose: verboseEnabled }),
-          );
-          return yield* Effect.fail("abort" as const);
-        }
+  const ghCommand = Command.make(
+    "gh",
+    {
+      args: ghArgs,
+      noDaemonStart,
+      profile: profileOption,
+      repos: tokenRepoOption,
+      permissions: tokenPermissionOption,
+    },
+    ({ args, noDaemonStart, profile, repos, permissions }) =>
+      Effect.gen(function* () {
+        const { gitHost } = yield* loadGitHubHost(profile);
+        const target = yield* ghTarget(args, gitHost);
+        yield* runWithAcquiredToken(
+          {
+            noDaemonStart,
+            profile,
+            repos,
+            permissions,
+            ...(target ? { target } : {}),
+          },
+          (token) => runGh(args, token.token, "gh", gitHost),
+        );
+      }),
+  );
 
-        const password = yield* Prompt.password({
-          message: "Password to decrypt PEM:",
-        });
+  // --- git command ---
+
+  const gitArgs = Args.text({ name: "args" }).pipe(Args.repeated);
+  const gitNoDaemonStart = Options.boolean("no-daemon-start").pipe(
+    Options.withDefault(false),
+  );
 
-        const decryptResult = yield* Effect.either(
-          decryptPem(encryptedResult.right, Redacted.value(password)),
+  const gitCommand = Command.make(
+    "git",
+    {
+      args: gitArgs,
+      noDaemonStart: gitNoDaemonStart,
+      profile: profileOption,
+      repos: tokenRepoOption,
+      permissions: tokenPermissionOption,
+    },
+    ({ args, noDaemonStart, profile, repos, permissions }) =>
+      Effect.gen(function* () {
+        const { gitHost } = yield* loadGitHubHost(profile);
+        const target = yield* gitTarget(args, gitHost);
+        yield* runWithAcquiredToken(
+          {
+            noDaemonStart,
+            profile,
+            repos,
+            permissions,
+            ...(target ? { target } : {}),
+          },
+          (token) => runGit(args, token.token, "git", gitHost),
         );
+      }),
+  );
 
-        if (decryptResult._tag === "Left") {
-          yield* Console.error(formatError(decryptResult.left));
-          return yield* Effect.fail("abort" as const);
-        }
+  // --- exec command ---
+
+  const execArgs = Args.text({ name: "command" }).pipe(Args.repeated);
+  const execEnv = Options.text("env").pipe(
+    Options.withDescription(
+      "Variable that receives the token; repeatable (default: GITHUB_TOKEN, GH_TOKEN)",
+    ),
+    Options.repeated,
+  );
 
-        startDaemonProcess(Redacted.value(password));
+  const execCommand = Command.make(
+    "exec",
+    {
+      args: execArgs,
+      env: execEnv,
+      noDaemonStart,
+      profile: profileOption,
+      repos: tokenRepoOption,
+      permissions: tokenPermissionOption,
+    },
+    ({ args, env, noDaemonStart, profile, repos, permissions }) =>
+      Effect.gen(function* () {
+        const [command, ...commandArgs] = args;
 
-        const waitResult = yield* Effect.either(waitForDaemon(client));
-        if (waitResult._tag === "Left") {
-          yield* Console.error("Failed to start daemon.");
-          return yield* Effect.fail("abort" as const);
+        if (!command) {
+          yield* Console.error("Usage: apptoken exec [--env NAME]... -- <command> [args...]");
+          yield* Effect.sync(() => {
+            process.exitCode = 1;
+          });
+          return;
         }
 
-        // Retry token request
-        tokenResult = yield* Effect.either(client.requestToken());
-      }
+        const invalid = env.find((name) => !isValidEnvName(name));
+        if (invalid !== undefined) {
+          yield* Console.error(`Invalid environment variable name '${invalid}'.`);
+          yield* Effect.sync(() => {
+            process.exitCode = 1;
+          });
+          return;
+        }
 
-      if (tokenResult._tag === "Left") {
-        yield* Console.error(
-          formatError(tokenResult.left, { verbose: verboseEnabled }),
+        yield* runWithAcquiredToken(
+          { noDaemonStart, profile, repos, permissions },
+          (token) =>
+            runWithToken(
+              command,
+              commandArgs,
+              token,
+              env.length > 0 ? env : DEFAULT_TOKEN_ENV,
+            ),
         );
-        return yield* Effect.fail("abort" as const);
-      }
+      }),
+  );
 
-      return tokenResult.right.token;
-    });
-  }
+  // --- config-defined wrapper commands ---
+
+  const wrapperCommands = Object.entries(wrapperConfigs).map(
+    ([name, wrapper]) =>
+      Command.make(
+        name,
+        {
+          args: Args.text({ name: "args" }).pipe(Args.repeated),
+          noDaemonStart,
+          profile: profileOption,
+          repos: tokenRepoOption,
+          permissions: tokenPermissionOption,
+        },
+        ({ args, noDaemonStart, profile, repos, permissions }) =>
+          runWithAcquiredToken(
+            {
+              noDaemonStart,
+              profile: Option.orElse(profile, () =>
+                Option.fromNullable(wrapper.profile),
+              ),
+              repos,
+              permissions,
+            },
+            (token) =>
+              runWithToken(
+                wrapper.command,
+                args,
+                token,
+                wrapper.env ?? DEFAULT_TOKEN_ENV,
+              ),
+          ),
+      ),
+  );
 
-  // --- gh command ---
+  // --- token command ---
 
-  const ghArgs = Args.text({ name: "args" }).pipe(Args.repeated);
-  const noDaemonStart = Options.boolean("no-daemon-start").pipe(
+  const TOKEN_LIFETIME_MS = 60 * 60 * 1000;
+
+  const tokenJson = Options.boolean("json").pipe(
+    Options.withDescription(
+      "Print token, expiresAt, permissions and repositories as JSON",
+    ),
     Options.withDefault(false),
   );
+  const tokenFormat = Options.choice("format", ["env", "shell", "dotenv"]).pipe(
+    Options.withDescription("Print the token as environment variables"),
+    Options.optional,
+  );
+  const minRemaining = Options.text("min-remaining").pipe(
+    Options.withDescription(
+      "Refresh the token if it expires sooner than this (e.g. 10m)",
+    ),
+    Options.optional,
+  );
 
-  const ghCommand = Command.make(
-    "gh",
-    { args: ghArgs, noDaemonStart },
-    ({ args, noDaemonStart }) =>
+  const tokenParent = Command.make(
+    "token",
+    {
+      noDaemonStart,
+      profile: profileOption,
+      repos: repoOption,
+      permissions: permissionOption,
+      json: tokenJson,
+      format: tokenFormat,
+      minRemaining,
+    },
+    ({ noDaemonStart, profile, repos, permissions, json, format, minRemaining }) =>
       Effect.gen(function* () {
+        const fail = (message: string) =>
+          Effect.gen(function* () {
+            yield* Console.error(message);
+            yield* Effect.sync(() => {
+              process.exitCode = 1;
+            });
+          });
+
+        if (json && Option.isSome(format)) {
+          return yield* fail("--json and --format cannot be combined.");
+        }
+
+        let minRemainingMs: number | undefined;
+        if (Option.isSome(minRemaining)) {
+          minRemainingMs = parseDuration(minRemaining.value);
+          if (minRemainingMs === undefined) {
+            return yield* fail(
+              `Invalid --min-remaining '${minRemaining.value}'. Use a duration like 30s, 10m or 1h.`,
+            );
+          }
+          if (minRemainingMs >= TOKEN_LIFETIME_MS) {
+            return yield* fail(
+              "--min-remaining must be shorter than the 1 hour token lifetime.",
+            );
+          }
+        }
+
         const tokenResult = yield* Effect.either(
-          acquireToken({ noDaemonStart }),
+          acquireToken({
+            noDaemonStart,
+            profile,
+            repos,
+            permissions,
+            ...(minRemainingMs !== undefined ? { minRemainingMs } : {}),
+          }),
         );
 
         if (tokenResult._tag === "Left") {
+          yield* Effect.sync(() => {
+            process.exitCode = 1;
+          });
           return;
         }
 
         const token = tokenResult.right;
 
-        // Run gh with token
-        const result = yield* Effect.either(runGh(args, token));
+        if (json) {
+          yield* Console.log(tokenToJson(token));
+        } else if (Option.isSome(format)) {
+          yield* Console.log(formatToken(token, format.value));
+        } else {
+          yield* Console.log(token.token);
+        }
+      }),
+  );
+
+  const tokenRevokeCommand = Command.make(
+    "revoke",
+    { profile: profileOption },
+    ({ profile }) =>
+      Effect.gen(function* () {
+        const profileResult = yield* Effect.either(resolveProfile(profile));
+        if (profileResult._tag === "Left") {
+          yield* Effect.sync(() => {
+            process.exitCode = 1;
+          });
+          return;
+        }
+
+        const profileName = profileResult.right;
+        const client = makeDaemonClient();
+        const result = yield* Effect.either(client.revokeTokens(profileName));
 
         if (result._tag === "Left") {
           const error = result.left;
-          if (error instanceof CommandNotFound) {
-            yield* Console.error(
-              formatError(error, { verbose: verboseEnabled }),
-            );
-          } else {
-            yield* Effect.sync(() => {
-              process.exitCode = error.exitCode;
-            });
+          // Without a daemon (or a loaded profile) there is no cached token;
+          // locking already wiped them.
+          if (
+            error instanceof DaemonNotRunning ||
+            error instanceof ProfileNotLoaded ||
+            error instanceof DaemonLocked
+          ) {
+            yield* Console.log("No cached tokens to revoke.");
+            return;
           }
+          yield* Console.error(
+            "Failed to revoke tokens: " +
+              formatError(error, { verbose: verboseEnabled }),
+          );
+          yield* Effect.sync(() => {
+            process.exitCode = 1;
+          });
           return;
         }
+
+        yield* Console.log(
+          result.right === 1
+            ? "Revoked 1 token."
+            : `Revoked ${result.right} tokens.`,
+        );
       }),
   );
 
-  // --- git command ---
+  const tokenCommand = tokenParent.pipe(
+    Command.withSubcommands([tokenRevokeCommand]),
+  );
 
-  const gitArgs = Args.text({ name: "args" }).pipe(Args.repeated);
-  const gitNoDaemonStart = Options.boolean("no-daemon-start").pipe(
+  // --- credential helper commands ---
+
+  const credentialParent = Command.make("credential", {
+    profile: profileOption,
+  });
+
+  const credentialGetCommand = Command.make("get", {}, () =>
+    Effect.gen(function* () {
+      const { profile } = yield* credentialParent;
+      const input = yield* readCredentialRequest(process.stdin);
+      const request = parseCredentialRequest(input);
+      const { gitHost } = yield* loadGitHubHost(profile);
+
+      if (!credentialMatchesHost(request, gitHost)) {
+        return;
+      }
+
+      // git owns stdin here, so never prompt: fall through to the next
+      // helper when the daemon cannot answer.
+      const tokenResult = yield* Effect.either(
+        acquireToken({
+          noDaemonStart: true,
+          profile,
+          repos: [],
+          permissions: [],
+        }),
+      );
+
+      if (tokenResult._tag === "Left") {
+        return;
+      }
+
+      const response = formatCredentialResponse(request, tokenResult.right);
+      yield* Effect.sync(() => {
+        process.stdout.write(response);
+      });
+    }),
+  );
+
+  // Tokens are short-lived and owned by the daemon; nothing to store or erase.
+  const credentialStoreCommand = Command.make("store", {}, () =>
+    Effect.asVoid(readCredentialRequest(process.stdin)),
+  );
+
+  const credentialEraseCommand = Command.make("erase", {}, () =>
+    Effect.asVoid(readCredentialRequest(process.stdin)),
+  );
+
+  const credentialCommand = credentialParent.pipe(
+    Command.withSubcommands([
+      credentialGetCommand,
+      credentialStoreCommand,
+      credentialEraseCommand,
+    ]),
+  );
+
+  // --- setup-git command ---
+
+  const setupGitGlobal = Options.boolean("global").pipe(
+    Options.withDescription("Write to the global git config (default)"),
+    Options.withDefault(false),
+  );
+  const setupGitLocal = Options.boolean("local").pipe(
+    Options.withDescription("Write to the current repository's git config"),
     Options.withDefault(false),
   );
 
-  const gitCommand = Command.make(
-    "git",
-    { args: gitArgs, noDaemonStart: gitNoDaemonStart },
-    ({ args, noDaemonStart }) =>
+  const setupGitCommand = Command.make(
+    "setup-git",
+    { global: setupGitGlobal, local: setupGitLocal, profile: profileOption },
+    ({ global, local, profile }) =>
       Effect.gen(function* () {
-        const tokenResult = yield* Effect.either(
-          acquireToken({ noDaemonStart }),
-        );
+        const fail = Effect.sync(() => {
+          process.exitCode = 1;
+        });
 
-        if (tokenResult._tag === "Left") {
-          return;
+        if (global && local) {
+          yield* Console.error("Use either --global or --local, not both.");
+          return yield* fail;
         }
 
-        const token = tokenResult.right;
+        // resolveProfile reports the error itself
+        if (Option.isSome(profile)) {
+          const profileResult = yield* Effect.either(resolveProfile(profile));
+          if (profileResult._tag === "Left") {
+            return yield* fail;
+          }
+        }
+        const { gitHost } = yield* loadGitHubHost(profile);
+
+        const entry = process.argv[1];
+        if (!entry) {
+          yield* Console.error("Unable to determine CLI entry path");
+          return yield* fail;
+        }
 
-        // Run git with token
-        const result = yield* Effect.either(runGit(args, token));
+        const helper =
+          "!" +
+          [
+            process.execPath,
+            entry,
+            "credential",
+            ...(Option.isSome(profile) ? ["--profile", profile.value] : []),
+          ]
+            .map(shellQuote)
+            .join(" ");
+
+        const scope = local ? "local" : "global";
+        const result = yield* Effect.either(
+          configureGitCredentialHelper(helper, {
+            scope,
+            host: gitHost,
+          }),
+        );
 
         if (result._tag === "Left") {
           const error = result.left;
@@ -580,15 +2238,222 @@ if (process.env["APPTOKEN_DAEMON"] === "1") {
               formatError(error, { verbose: verboseEnabled }),
             );
           } else {
-            yield* Effect.sync(() => {
-              process.exitCode = error.exitCode;
-            });
+            yield* Console.error(
+              "Failed to update git config: " + error.stderr.trim(),
+            );
           }
+          return yield* fail;
+        }
+
+        yield* Console.log(
+          `Configured apptoken as the ${scope} git credential helper for https://${gitHost}.`,
+        );
+      }),
+  );
+
+  // --- installations commands ---
+
+  const installationsJson = Options.boolean("json").pipe(
+    Options.withDescription("Print installations as JSON"),
+    Options.withDefault(false),
+  );
+
+  const installationsListCommand = Command.make(
+    "list",
+    { json: installationsJson, profile: profileOption },
+    ({ json, profile }) =>
+      Effect.gen(function* () {
+        const fail = Effect.sync(() => {
+          process.exitCode = 1;
+        });
+
+        const profileResult = yield* Effect.either(resolveProfile(profile));
+        if (profileResult._tag === "Left") {
+          return yield* fail;
+        }
+
+        const profileName = profileResult.right;
+        const configResult = yield* Effect.either(
+          loadConfig(undefined, profileName),
+        );
+        if (configResult._tag === "Left") {
+          yield* Console.error(
+            formatError(configResult.left, { verbose: verboseEnabled }),
+          );
+          return yield* fail;
+        }
+
+        const config = configResult.right;
+        const unlocked = yield* Effect.either(
+          promptProfilePassword(profileName),
+        );
+        if (unlocked._tag === "Left") {
+          return yield* fail;
+        }
+
+        const result = yield* Effect.either(
+          discoverInstallations(unlocked.right.pem, config),
+        );
+        if (result._tag === "Left") {
+          yield* Console.error(
+            formatError(result.left, { verbose: verboseEnabled }),
+          );
+          return yield* fail;
+        }
+
+        if (json) {
+          yield* Console.log(JSON.stringify(result.right, null, 2));
+          return;
+        }
+
+        if (result.right.length === 0) {
+          yield* Console.log("No installations found.");
+          return;
+        }
+
+        for (const installation of result.right) {
+          const marker = installation.id === config.installationId ? "*" : " ";
+          yield* Console.log(
+            `${marker} ${installation.id}  ${describeInstallation(installation)}`,
+          );
+        }
+      }),
+  );
+
+  const installationsForCommand = Command.make(
+    "for",
+    {
+      repo: Args.text({ name: "owner/repo" }),
+      json: installationsJson,
+      noDaemonStart,
+      profile: profileOption,
+    },
+    ({ repo, json, noDaemonStart, profile }) =>
+      Effect.gen(function* () {
+        const fail = Effect.sync(() => {
+          process.exitCode = 1;
+        });
+
+        const profileResult = yield* Effect.either(resolveProfile(profile));
+        if (profileResult._tag === "Left") {
+          return yield* fail;
+        }
+
+        const profileName = profileResult.right;
+        const { gitHost } = yield* loadGitHubHost(Option.some(profileName));
+        const target = parseRepoRef(repo, gitHost);
+        if (!target) {
+          yield* Console.error(`Invalid repository '${repo}'. Use owner/name.`);
+          return yield* fail;
+        }
+
+        const result = yield* Effect.either(
+          requestFromDaemon({ noDaemonStart, profile: profileName }, (client) =>
+            client.resolveInstallation({
+              profile: profileName,
+              owner: target.owner,
+              repo: target.name,
+            }),
+          ),
+        );
+        if (result._tag === "Left") {
+          return yield* fail;
+        }
+
+        const installation = result.right;
+        if (json) {
+          yield* Console.log(JSON.stringify(installation, null, 2));
+          return;
+        }
+
+        yield* Console.log(
+          `${installation.id}  ${describeInstallation(installation)}`,
+        );
+      }),
+  );
+
+  const installationsCommand = Command.make("installations").pipe(
+    Command.withSubcommands([installationsListCommand, installationsForCommand]),
+  );
+
+  // --- profile commands ---
+
+  const profileListCommand = Command.make("list", {}, () =>
+    Effect.gen(function* () {
+      const fileResult = yield* Effect.either(loadConfigFile());
+
+      if (fileResult._tag === "Left") {
+        yield* Console.error(
+          formatError(fileResult.left, { verbose: verboseEnabled }),
+        );
+        yield* Effect.sync(() => {
+          process.exitCode = 1;
+        });
+        return;
+      }
+
+      const file = fileResult.right;
+      for (const [name, config] of Object.entries(file.profiles)) {
+        const marker = name === file.defaultProfile ? "*" : " ";
+        yield* Console.log(
+          `${marker} ${name} (App ID: ${config.appId}, Installation ID: ${config.installationId})`,
+        );
+      }
+    }),
+  );
+
+  const profileName = Args.text({ name: "name" });
+
+  const profileUseCommand = Command.make(
+    "use",
+    { name: profileName },
+    ({ name }) =>
+      Effect.gen(function* () {
+        const result = yield* Effect.either(setDefaultProfile(name));
+
+        if (result._tag === "Left") {
+          yield* Console.error(
+            formatError(result.left, { verbose: verboseEnabled }),
+          );
+          yield* Effect.sync(() => {
+            process.exitCode = 1;
+          });
+          return;
+        }
+
+        yield* Console.log(`Default profile set to '${name}'.`);
+      }),
+  );
+
+  const profileRemoveCommand = Command.make(
+    "remove",
+    { name: profileName },
+    ({ name }) =>
+      Effect.gen(function* () {
+        const result = yield* Effect.either(removeProfile(name));
+
+        if (result._tag === "Left") {
+          yield* Console.error(
+            formatError(result.left, { verbose: verboseEnabled }),
+          );
+          yield* Effect.sync(() => {
+            process.exitCode = 1;
+          });
           return;
         }
+
+        yield* Console.log(`Profile '${name}' removed.`);
       }),
   );
 
+  const profileCommand = Command.make("profile").pipe(
+    Command.withSubcommands([
+      profileListCommand,
+      profileUseCommand,
+      profileRemoveCommand,
+    ]),
+  );
+
   // --- root command ---
 
   const verbose = Options.boolean("verbose").pipe(
@@ -597,7 +2462,23 @@ if (process.env["APPTOKEN_DAEMON"] === "1") {
   );
 
   const appCommand = Command.make("apptoken", { verbose }).pipe(
-    Command.withSubcommands([initCommand, daemonCommand, ghCommand, gitCommand]),
+    Command.withSubcommands([
+      initCommand,
+      daemonCommand,
+      ghCommand,
+      gitCommand,
+      tokenCommand,
+      lockCommand,
+      unlockCommand,
+      rekeyCommand,
+      passwdCommand,
+      installationsCommand,
+      execCommand,
+      credentialCommand,
+      setupGitCommand,
+      profileCommand,
+      ...wrapperCommands,
+    ]),
   );
 
   const cli = Command.run(appCommand, {
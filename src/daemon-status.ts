@@ -0,0 +1,80 @@
+import { formatDuration } from "./duration.ts";
+import type { DaemonStatusReport } from "./services/SocketProtocol.ts";
+import type { TokenScope } from "./services/TokenService.ts";
+
+function describeScope(scope: TokenScope | undefined): string {
+  const parts: string[] = [];
+  if (scope?.repositories && scope.repositories.length > 0) {
+    parts.push(`repos ${scope.repositories.join(",")}`);
+  }
+  if (scope?.permissions && Object.keys(scope.permissions).length > 0) {
+    parts.push(
+      Object.entries(scope.permissions)
+        .map(([name, level]) => `${name}:${level}`)
+        .join(",")
+    );
+  }
+  return parts.length > 0 ? parts.join(" ") : "full access";
+}
+
+function describeExpiry(expiresAt: string, now: number): string {
+  const remaining = new Date(expiresAt).getTime() - now;
+  return remaining > 0
+    ? `expires in ${formatDuration(remaining)}`
+    : "expired";
+}
+
+/** Renders a status report for `apptoken daemon status`. */
+export function formatDaemonStatus(
+  report: DaemonStatusReport,
+  now: number = Date.now()
+): string {
+  const lines = [
+    `Daemon: running (PID: ${report.pid})`,
+    `Uptime: ${formatDuration(report.uptimeMs)} (since ${report.startedAt})`,
+    `State: ${report.locked ? "locked" : "unlocked"}`,
+    `Requests: ${report.requests.total} (${report.requests.failed} failed)`,
+  ];
+  if (report.lastError) {
+    lines.push(`Last error: ${report.lastError.message} (${report.lastError.at})`);
+  }
+
+  if (report.profiles.length === 0) {
+    lines.push("Profiles: none loaded");
+  }
+  for (const profile of report.profiles) {
+    lines.push(
+      `Profile ${profile.profile}: App ${profile.appId}, installation ${profile.installationId}`
+    );
+    if (profile.cachedTokens.length === 0) {
+      lines.push("  No cached tokens");
+    }
+    for (const token of profile.cachedTokens) {
+      lines.push(
+        `  Token for installation ${token.installationId} (${describeScope(token.scope)}), ${describeExpiry(token.expiresAt, now)}`
+      );
+    }
+  }
+
+  const refresh = report.refresh;
+  if (!refresh) {
+    lines.push("Refresh: on demand");
+  } else {
+    lines.push(
+      refresh.status === "ok"
+        ? "Refresh: ok"
+        : `Refresh: retrying after ${refresh.consecutiveFailures} failure(s)`
+    );
+    if (refresh.lastRefreshAt) {
+      lines.push(`  Last refresh: ${refresh.lastRefreshAt}`);
+    }
+    if (refresh.nextCheckAt) {
+      lines.push(`  Next check:   ${refresh.nextCheckAt}`);
+    }
+    if (refresh.lastError) {
+      lines.push(`  Last error:   ${refresh.lastError}`);
+    }
+  }
+
+  return lines.join("\n");
+}
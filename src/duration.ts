@@ -0,0 +1,52 @@
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const DURATION_PATTERN = /^(?:\d+(?:ms|s|m|h|d))+$/;
+const PART_PATTERN = /(\d+)(ms|s|m|h|d)/g;
+
+/**
+ * Parses durations such as `90s`, `10m`, `1h30m` into milliseconds.
+ * Returns undefined for anything else.
+ */
+export function parseDuration(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (!DURATION_PATTERN.test(trimmed)) {
+    return undefined;
+  }
+
+  let total = 0;
+  for (const match of trimmed.matchAll(PART_PATTERN)) {
+    total += Number(match[1]) * UNIT_MS[match[2]!]!;
+  }
+  return total;
+}
+
+/**
+ * Renders milliseconds as at most two units, e.g. `1h5m` or `42s`, in the
+ * notation parseDuration accepts. Smaller units are dropped, not rounded.
+ */
+export function formatDuration(ms: number): string {
+  let remaining = Math.max(0, ms);
+  const parts: string[] = [];
+
+  for (const unit of ["d", "h", "m", "s"] as const) {
+    const size = UNIT_MS[unit]!;
+    const count = Math.floor(remaining / size);
+    remaining -= count * size;
+
+    if (count > 0) {
+      parts.push(`${count}${unit}`);
+    }
+    // Stop after the unit that follows the largest one, even when it is zero
+    if (parts.length === 2 || (parts.length === 1 && count === 0)) {
+      break;
+    }
+  }
+
+  return parts.length > 0 ? parts.join("") : "0s";
+}
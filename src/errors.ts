@@ -14,6 +14,20 @@ export class PemNotFound extends Data.TaggedError("PemNotFound")<{
 
 export class InvalidPassword extends Data.TaggedError("InvalidPassword") {}
 
+export class PasswordCommandFailed extends Data.TaggedError(
+  "PasswordCommandFailed"
+)<{
+  readonly command: string;
+  readonly exitCode: number;
+  readonly stderr: string;
+}> {}
+
+export class PasswordFileNotFound extends Data.TaggedError(
+  "PasswordFileNotFound"
+)<{
+  readonly path: string;
+}> {}
+
 export class DecryptError extends Data.TaggedError("DecryptError")<{
   readonly message: string;
 }> {}
@@ -22,15 +36,73 @@ export class JwtGenerationError extends Data.TaggedError("JwtGenerationError")<{
   readonly message: string;
 }> {}
 
+/** What GitHub said about a rate limit it applied. */
+export interface RateLimitInfo {
+  /** When GitHub will accept requests again. */
+  readonly retryAt: Date;
+  readonly limit?: number;
+  readonly remaining?: number;
+}
+
 export class GitHubApiError extends Data.TaggedError("GitHubApiError")<{
   readonly status: number;
   readonly message: string;
+  /** Set when the request was refused by a primary or secondary rate limit. */
+  readonly rateLimit?: RateLimitInfo;
+}> {}
+
+export class ClockSkewError extends Data.TaggedError("ClockSkewError")<{
+  /** GitHub's time minus local time. */
+  readonly offsetMs: number;
+  /** GitHub's reason for rejecting the JWT. */
+  readonly message: string;
+}> {}
+
+export class ProxyError extends Data.TaggedError("ProxyError")<{
+  /** Proxy URL without credentials. */
+  readonly proxy: string;
+  readonly message: string;
+}> {}
+
+export class TlsError extends Data.TaggedError("TlsError")<{
+  /** e.g. SELF_SIGNED_CERT_IN_CHAIN or ERR_TLS_CERT_ALTNAME_INVALID */
+  readonly code: string;
+  readonly message: string;
+  /** The extra CA bundle that was trusted, if one is configured. */
+  readonly caFile?: string;
+}> {}
+
+export class CaFileNotFound extends Data.TaggedError("CaFileNotFound")<{
+  readonly path: string;
+}> {}
+
+/** GitHub did not accept the private key as belonging to the App ID. */
+export class AppCredentialsRejected extends Data.TaggedError(
+  "AppCredentialsRejected"
+)<{
+  readonly appId: string;
+  /** GitHub's reason, or what did not match. */
+  readonly message: string;
+}> {}
+
+export class InstallationMismatch extends Data.TaggedError(
+  "InstallationMismatch"
+)<{
+  readonly installationId: string;
+  /** Name of the app the installation was looked up for. */
+  readonly appName: string;
 }> {}
 
 export class DaemonNotRunning extends Data.TaggedError("DaemonNotRunning") {}
 
 export class DaemonAlreadyRunning extends Data.TaggedError("DaemonAlreadyRunning") {}
 
+export class DaemonLocked extends Data.TaggedError("DaemonLocked") {}
+
+export class DaemonAuthFailed extends Data.TaggedError("DaemonAuthFailed")<{
+  readonly message: string;
+}> {}
+
 export class DaemonError extends Data.TaggedError("DaemonError")<{
   readonly message: string;
 }> {}
@@ -38,3 +110,11 @@ export class DaemonError extends Data.TaggedError("DaemonError")<{
 export class SocketError extends Data.TaggedError("SocketError")<{
   readonly message: string;
 }> {}
+
+export class ProfileNotFound extends Data.TaggedError("ProfileNotFound")<{
+  readonly profile: string;
+}> {}
+
+export class ProfileNotLoaded extends Data.TaggedError("ProfileNotLoaded")<{
+  readonly profile: string;
+}> {}
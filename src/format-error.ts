@@ -1,15 +1,30 @@
 import {
   ConfigNotFound,
+  ConfigParseError,
   PemNotFound,
+  ProfileNotFound,
+  ProfileNotLoaded,
   InvalidPassword,
+  DecryptError,
+  PasswordCommandFailed,
+  PasswordFileNotFound,
   DaemonNotRunning,
   DaemonAlreadyRunning,
+  DaemonLocked,
+  DaemonAuthFailed,
   GitHubApiError,
+  ClockSkewError,
+  ProxyError,
+  TlsError,
+  CaFileNotFound,
+  AppCredentialsRejected,
+  InstallationMismatch,
   JwtGenerationError,
   SocketError,
   DaemonError,
 } from "./errors.ts";
 import { CommandNotFound } from "./services/CommandExecutor.ts";
+import { formatDuration } from "./duration.ts";
 
 interface FormatErrorOptions {
   verbose?: boolean;
@@ -26,6 +41,18 @@ export function formatError(error: unknown, options?: FormatErrorOptions): strin
     return msg;
   }
 
+  if (error instanceof ConfigParseError) {
+    return `Configuration is invalid: ${error.message}`;
+  }
+
+  if (error instanceof ProfileNotFound) {
+    return `Profile '${error.profile}' not found. Run 'apptoken init --profile ${error.profile}' to set it up, or 'apptoken profile list' to see existing profiles.`;
+  }
+
+  if (error instanceof ProfileNotLoaded) {
+    return `Profile '${error.profile}' is not loaded in the daemon. Load it with 'apptoken daemon start --profile ${error.profile}'.`;
+  }
+
   if (error instanceof PemNotFound) {
     let msg = "Encrypted PEM not found. Run 'apptoken init' to set up.";
     if (verbose) {
@@ -38,15 +65,57 @@ export function formatError(error: unknown, options?: FormatErrorOptions): strin
     return "Incorrect password. Please try again.";
   }
 
+  if (error instanceof PasswordCommandFailed) {
+    let msg = `passwordCommand '${error.command}' failed with exit code ${error.exitCode}.`;
+    const stderr = error.stderr.trim();
+    if (stderr) {
+      msg += `\n${stderr}`;
+    }
+    return msg;
+  }
+
+  if (error instanceof PasswordFileNotFound) {
+    return `Cannot read the password file ${error.path} named by APPTOKEN_PASSWORD_FILE.`;
+  }
+
+  if (error instanceof DecryptError) {
+    return `Cannot decrypt the private key: ${error.message}`;
+  }
+
   if (error instanceof DaemonNotRunning) {
     return "Daemon is not running. Start it with 'apptoken daemon start'.";
   }
 
+  if (error instanceof DaemonLocked) {
+    return "Daemon is locked: it holds no private key or tokens. Run 'apptoken unlock' to unlock it.";
+  }
+
+  if (error instanceof DaemonAuthFailed) {
+    return `The daemon refused this client: ${error.message}. If it was started by another user or an older apptoken, run 'apptoken daemon stop' and try again.`;
+  }
+
   if (error instanceof DaemonAlreadyRunning) {
     return "Daemon is already running.";
   }
 
   if (error instanceof GitHubApiError) {
+    if (error.rateLimit) {
+      const waitMs = error.rateLimit.retryAt.getTime() - Date.now();
+      let msg =
+        waitMs > 0
+          ? `GitHub rate limit exceeded. Try again in ${formatDuration(Math.max(waitMs, 1000))}.`
+          : "GitHub rate limit exceeded. Try again now.";
+      if (verbose) {
+        msg += `\nRetry at: ${error.rateLimit.retryAt.toISOString()}\nMessage: ${error.message}`;
+      }
+      return msg;
+    }
+    if (error.status === 0) {
+      return `Could not reach GitHub (${error.message}). Check your network connection and try again.`;
+    }
+    if (error.status >= 500) {
+      return `GitHub is having trouble (${error.status}): ${error.message}. Try again in a few minutes.`;
+    }
     if (error.status === 401) {
       let msg = "Authentication failed. Check your App ID and private key.";
       if (verbose) {
@@ -55,16 +124,67 @@ export function formatError(error: unknown, options?: FormatErrorOptions): strin
       return msg;
     }
     if (error.status === 404) {
-      return "Resource not found. Check installation ID and permissions.";
+      return "Resource not found. Check installation ID and permissions, or run 'apptoken installations for owner/repo' to find the installation that covers a repository.";
     }
     return `GitHub API error (${error.status}): ${error.message}`;
   }
 
+  if (error instanceof ClockSkewError) {
+    const seconds = Math.round(Math.abs(error.offsetMs) / 1000);
+    let msg =
+      seconds > 0
+        ? `Your clock is off by ${seconds} seconds (${error.offsetMs < 0 ? "ahead of" : "behind"} GitHub), and GitHub rejected the app's JWT even after apptoken corrected for it. Sync your system clock (e.g. enable NTP) and try again.`
+        : "GitHub rejected the app's JWT for its timestamps although your clock agrees with GitHub's. Sync your system clock (e.g. enable NTP) and try again.";
+    if (verbose) {
+      msg += `\nMessage: ${error.message}`;
+    }
+    return msg;
+  }
+
+  if (error instanceof ProxyError) {
+    let msg = `Could not reach GitHub through the proxy ${error.proxy}. Check HTTPS_PROXY, or list the GitHub host in NO_PROXY to connect directly.`;
+    if (verbose) {
+      msg += `\nMessage: ${error.message}`;
+    }
+    return msg;
+  }
+
+  if (error instanceof TlsError) {
+    let msg = `Could not verify GitHub's TLS certificate (${error.code}).`;
+    msg +=
+      error.caFile !== undefined
+        ? ` It is not signed by the system roots or by the CA bundle at ${error.caFile}.`
+        : " If a proxy or GitHub Enterprise Server uses an internal CA, set \"caFile\" in the profile's config to its PEM bundle.";
+    if (verbose) {
+      msg += `\nMessage: ${error.message}`;
+    }
+    return msg;
+  }
+
+  if (error instanceof CaFileNotFound) {
+    return `CA bundle not found at ${error.path}. Fix "caFile" in the profile's config.`;
+  }
+
+  if (error instanceof AppCredentialsRejected) {
+    let msg = `The private key does not belong to App ID ${error.appId}. Check the App ID on the app's settings page and that the key was generated for that app.`;
+    if (verbose) {
+      msg += `\nMessage: ${error.message}`;
+    }
+    return msg;
+  }
+
+  if (error instanceof InstallationMismatch) {
+    return `Installation ${error.installationId} is not an installation of ${error.appName}. Run 'apptoken init' without --installation-id to pick one of its installations.`;
+  }
+
   if (error instanceof CommandNotFound) {
     if (error.command === "git") {
       return "git not found. Install git to use this command.";
     }
-    return "gh CLI not found. Install it from https://cli.github.com";
+    if (error.command === "gh") {
+      return "gh CLI not found. Install it from https://cli.github.com";
+    }
+    return `${error.command} not found. Check that it is installed and on your PATH.`;
   }
 
   if (error instanceof JwtGenerationError) {
@@ -0,0 +1,82 @@
+import { Effect } from "effect";
+
+export const GITHUB_GIT_HOST = "github.com";
+export const GIT_TOKEN_USERNAME = "x-access-token";
+
+export type CredentialRequest = Readonly<Record<string, string>>;
+
+/**
+ * Reads a git credential request: `key=value` lines terminated by a blank
+ * line or end of input.
+ */
+export function readCredentialRequest(
+  stream: NodeJS.ReadableStream,
+): Effect.Effect<string> {
+  return Effect.async<string>((resume) => {
+    let buffer = "";
+    let resolved = false;
+
+    const cleanup = () => {
+      stream.off("data", onData);
+      stream.off("end", finish);
+      stream.off("error", finish);
+      if (typeof stream.pause === "function") {
+        stream.pause();
+      }
+    };
+
+    const finish = () => {
+      if (resolved) return;
+      resolved = true;
+      cleanup();
+      resume(Effect.succeed(buffer));
+    };
+
+    const onData = (chunk: Buffer | string) => {
+      buffer += typeof chunk === "string" ? chunk : chunk.toString("utf8");
+      if (/(^|\n)\r?\n/.test(buffer)) {
+        finish();
+      }
+    };
+
+    stream.on("data", onData);
+    stream.on("end", finish);
+    stream.on("error", finish);
+
+    return Effect.sync(cleanup);
+  });
+}
+
+export function parseCredentialRequest(input: string): CredentialRequest {
+  const request: Record<string, string> = {};
+  for (const line of input.split(/\r?\n/)) {
+    if (line.length === 0) break;
+    const separator = line.indexOf("=");
+    if (separator <= 0) continue;
+    request[line.slice(0, separator)] = line.slice(separator + 1);
+  }
+  return request;
+}
+
+/** Only answer for https requests to the configured git host. */
+export function credentialMatchesHost(
+  request: CredentialRequest,
+  host: string,
+): boolean {
+  if (request["protocol"] !== "https") return false;
+  return (request["host"] ?? "").toLowerCase() === host.toLowerCase();
+}
+
+export function formatCredentialResponse(
+  request: CredentialRequest,
+  token: { token: string; expiresAt: Date },
+): string {
+  const lines = [
+    `protocol=${request["protocol"]}`,
+    `host=${request["host"]}`,
+    `username=${GIT_TOKEN_USERNAME}`,
+    `password=${token.token}`,
+    `password_expiry_utc=${Math.floor(token.expiresAt.getTime() / 1000)}`,
+  ];
+  return lines.join("\n") + "\n";
+}
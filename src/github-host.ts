@@ -0,0 +1,63 @@
+import { GITHUB_GIT_HOST } from "./git-credential.ts";
+import type { AppConfig } from "./services/ConfigService.ts";
+
+export const GITHUB_API_BASE_URL = "https://api.github.com";
+
+/** Where a profile's GitHub lives: github.com or a GitHub Enterprise Server. */
+export interface GitHubHost {
+  /** REST API root, e.g. `https://ghe.example.com/api/v3`. */
+  readonly apiBaseUrl: string;
+  /** Host name git and gh use, e.g. `ghe.example.com`. */
+  readonly gitHost: string;
+}
+
+const HOSTNAME_PATTERN =
+  /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)*$/i;
+
+export function isValidHostname(host: string): boolean {
+  return HOSTNAME_PATTERN.test(host);
+}
+
+export function isGitHubDotCom(host: GitHubHost): boolean {
+  return host.gitHost.toLowerCase() === GITHUB_GIT_HOST;
+}
+
+/** The API root of a GitHub Enterprise Server reached at `gitHost`. */
+function enterpriseApiBaseUrl(gitHost: string): string {
+  return `https://${gitHost}/api/v3`;
+}
+
+// `https://api.github.com` and `https://api.acme.ghe.com` serve git from the
+// host without the `api.` prefix; GHES serves both from one host.
+function gitHostFromApiBaseUrl(apiBaseUrl: string): string | undefined {
+  try {
+    return new URL(apiBaseUrl).hostname.replace(/^api\./, "");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolves a profile's API root and git host. Either may be configured on its
+ * own and the other is derived from it; neither means github.com.
+ */
+export function resolveGitHubHost(
+  config: Pick<AppConfig, "apiBaseUrl" | "gitHost">,
+): GitHubHost {
+  const apiBaseUrl = config.apiBaseUrl?.replace(/\/+$/, "");
+  const gitHost =
+    config.gitHost ??
+    (apiBaseUrl !== undefined ? gitHostFromApiBaseUrl(apiBaseUrl) : undefined) ??
+    GITHUB_GIT_HOST;
+
+  return {
+    apiBaseUrl:
+      apiBaseUrl ??
+      (gitHost.toLowerCase() === GITHUB_GIT_HOST
+        ? GITHUB_API_BASE_URL
+        : enterpriseApiBaseUrl(gitHost)),
+    gitHost,
+  };
+}
+
+export const GITHUB_DOT_COM: GitHubHost = resolveGitHubHost({});
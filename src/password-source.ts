@@ -0,0 +1,113 @@
+import { Effect } from "effect";
+import { spawn } from "child_process";
+import { readFileSync } from "fs";
+import { PasswordCommandFailed, PasswordFileNotFound } from "./errors.ts";
+
+/** Where the PEM password comes from when nobody is there to type it. */
+export type PasswordSource =
+  | { readonly kind: "stdin" }
+  | { readonly kind: "file"; readonly path: string }
+  | { readonly kind: "command"; readonly command: string };
+
+export const PASSWORD_FILE_ENV = "APPTOKEN_PASSWORD_FILE";
+
+/**
+ * Picks the password source: `--password-stdin`, then APPTOKEN_PASSWORD_FILE,
+ * then the profile's `passwordCommand`. Undefined means prompt for it.
+ */
+export function resolvePasswordSource(options: {
+  readonly passwordStdin?: boolean;
+  readonly passwordCommand?: string;
+  readonly env?: NodeJS.ProcessEnv;
+}): PasswordSource | undefined {
+  const path = (options.env ?? process.env)[PASSWORD_FILE_ENV];
+  if (options.passwordStdin) {
+    return { kind: "stdin" };
+  }
+  if (path) {
+    return { kind: "file", path };
+  }
+  if (options.passwordCommand?.trim()) {
+    return { kind: "command", command: options.passwordCommand };
+  }
+  return undefined;
+}
+
+// Files and commands end the password with a newline, like `echo` and `pass`
+// do; a password never legitimately ends with one.
+function stripNewline(text: string): string {
+  return text.replace(/\r?\n$/, "");
+}
+
+/** Reads everything written to `stream` until it closes. */
+export function readPasswordFromStream(
+  stream: NodeJS.ReadableStream,
+): Effect.Effect<string> {
+  return Effect.async<string>((resume) => {
+    let buffer = "";
+    stream.on("data", (chunk: Buffer | string) => {
+      buffer += typeof chunk === "string" ? chunk : chunk.toString("utf8");
+    });
+    stream.on("end", () => resume(Effect.succeed(stripNewline(buffer))));
+    stream.on("error", () => resume(Effect.succeed(stripNewline(buffer))));
+  });
+}
+
+/**
+ * Runs `command` through the shell and takes the password from its stdout.
+ * The terminal stays attached to its stdin so tools like `pass` can ask for
+ * a GPG passphrase.
+ */
+export function runPasswordCommand(
+  command: string,
+): Effect.Effect<string, PasswordCommandFailed> {
+  return Effect.async<string, PasswordCommandFailed>((resume) => {
+    const proc = spawn("sh", ["-c", command], {
+      stdio: ["inherit", "pipe", "pipe"],
+    });
+
+    let stdout = "";
+    let stderr = "";
+    proc.stdout.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString();
+    });
+    proc.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+
+    proc.on("error", (err) => {
+      resume(
+        Effect.fail(
+          new PasswordCommandFailed({ command, exitCode: 1, stderr: String(err) }),
+        ),
+      );
+    });
+
+    proc.on("close", (code) => {
+      const exitCode = code ?? 1;
+      if (exitCode !== 0) {
+        resume(
+          Effect.fail(new PasswordCommandFailed({ command, exitCode, stderr })),
+        );
+      } else {
+        resume(Effect.succeed(stripNewline(stdout)));
+      }
+    });
+  });
+}
+
+export function readPassword(
+  source: PasswordSource,
+): Effect.Effect<string, PasswordCommandFailed | PasswordFileNotFound> {
+  switch (source.kind) {
+    case "stdin":
+      return readPasswordFromStream(process.stdin);
+    case "file":
+      return Effect.try({
+        try: () => stripNewline(readFileSync(source.path, "utf8")),
+        catch: () => new PasswordFileNotFound({ path: source.path }),
+      });
+    case "command":
+      return runPasswordCommand(source.command);
+  }
+}
@@ -14,3 +14,13 @@ export function getSocketPath(): string {
 export function getPidPath(): string {
   return join(getConfigDir(), "daemon.pid");
 }
+
+/** The running daemon's session secret, for clients it cannot identify. */
+export function getSecretPath(): string {
+  return join(getConfigDir(), "daemon.secret");
+}
+
+/** Where a daemon started in the background writes its diagnostics. */
+export function getDaemonLogPath(): string {
+  return join(getConfigDir(), "daemon.log");
+}
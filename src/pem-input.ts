@@ -1,8 +1,14 @@
 import * as Terminal from "@effect/platform/Terminal";
 import { Effect } from "effect";
+import { readdirSync, statSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
 
 const END_MARKER = /-----END (RSA )?PRIVATE KEY-----/;
 
+// GitHub names downloaded app keys `<app-slug>.<yyyy-mm-dd>.private-key.pem`
+const APP_KEY_FILENAME = /\.private-key\.pem$/;
+
 type ReadOptions = {
   handleSigint?: boolean;
 };
@@ -67,3 +73,32 @@ export function readPemFromStream(
     return Effect.sync(cleanup);
   });
 }
+
+/** Where the browser saves files: XDG_DOWNLOAD_DIR, else ~/Downloads. */
+export function getDownloadDir(env: NodeJS.ProcessEnv = process.env): string {
+  return env["XDG_DOWNLOAD_DIR"] || join(homedir(), "Downloads");
+}
+
+/** GitHub App private keys downloaded to `dir`, newest first. */
+export function findDownloadedPrivateKeys(dir: string): string[] {
+  let names: string[];
+  try {
+    names = readdirSync(dir);
+  } catch {
+    return [];
+  }
+
+  return names
+    .filter((name) => APP_KEY_FILENAME.test(name))
+    .map((name) => join(dir, name))
+    .flatMap((path) => {
+      try {
+        const stat = statSync(path);
+        return stat.isFile() ? [{ path, mtimeMs: stat.mtimeMs }] : [];
+      } catch {
+        return [];
+      }
+    })
+    .sort((a, b) => b.mtimeMs - a.mtimeMs)
+    .map((file) => file.path);
+}
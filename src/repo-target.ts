@@ -0,0 +1,145 @@
+import { resolve } from "path";
+import { GITHUB_GIT_HOST } from "./git-credential.ts";
+
+export interface RepoRef {
+  readonly owner: string;
+  readonly name: string;
+}
+
+const NAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+function toRepoRef(owner: string | undefined, name: string | undefined) {
+  if (!owner || !name) return undefined;
+  const repo = name.replace(/\.git$/, "");
+  if (!NAME_PATTERN.test(owner) || !NAME_PATTERN.test(repo)) return undefined;
+  return { owner, name: repo };
+}
+
+/**
+ * Parses a repository reference as gh and git spell it: `owner/repo`,
+ * `host/owner/repo`, an https or ssh URL, or scp-style `git@host:owner/repo`.
+ * References to other hosts return `undefined`.
+ */
+export function parseRepoRef(
+  input: string,
+  host: string = GITHUB_GIT_HOST,
+): RepoRef | undefined {
+  const value = input.trim().replace(/\/+$/, "");
+  const sameHost = (candidate: string) =>
+    candidate.toLowerCase() === host.toLowerCase();
+
+  const scp = /^[^@/]+@([^:/]+):([^/]+)\/([^/]+)$/.exec(value);
+  if (scp) {
+    return sameHost(scp[1]!) ? toRepoRef(scp[2], scp[3]) : undefined;
+  }
+
+  if (/^[a-z+]+:\/\//i.test(value)) {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return undefined;
+    }
+    if (!sameHost(url.hostname)) return undefined;
+    const [owner, name, ...rest] = url.pathname.split("/").filter(Boolean);
+    return rest.length === 0 ? toRepoRef(owner, name) : undefined;
+  }
+
+  const parts = value.split("/");
+  if (parts.length === 2) {
+    return toRepoRef(parts[0], parts[1]);
+  }
+  if (parts.length === 3 && sameHost(parts[0]!)) {
+    return toRepoRef(parts[1], parts[2]);
+  }
+  return undefined;
+}
+
+/** Returns the value of gh's `-R`/`--repo` flag, if present. */
+export function findGhRepoArg(args: ReadonlyArray<string>): string | undefined {
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i]!;
+    if (arg === "-R" || arg === "--repo") return args[i + 1];
+    if (arg.startsWith("--repo=")) return arg.slice("--repo=".length);
+    if (arg.startsWith("-R") && arg.length > 2) return arg.slice(2);
+  }
+  return undefined;
+}
+
+// Global options that take a separate value, e.g. `git -C dir status`.
+const GIT_GLOBAL_VALUE_OPTIONS = new Set([
+  "-C",
+  "-c",
+  "--git-dir",
+  "--work-tree",
+  "--namespace",
+  "--exec-path",
+  "--config-env",
+]);
+
+// `git clone` options that take a separate value.
+const GIT_CLONE_VALUE_OPTIONS = new Set([
+  "-o",
+  "--origin",
+  "-b",
+  "--branch",
+  "-u",
+  "--upload-pack",
+  "--reference",
+  "--reference-if-able",
+  "--separate-git-dir",
+  "--depth",
+  "--shallow-since",
+  "--shallow-exclude",
+  "-c",
+  "--config",
+  "-j",
+  "--jobs",
+  "--filter",
+  "--template",
+  "--server-option",
+  "--bundle-uri",
+  "--ref-format",
+]);
+
+function splitGitArgs(args: ReadonlyArray<string>) {
+  let directory: string | undefined;
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i]!;
+    if (GIT_GLOBAL_VALUE_OPTIONS.has(arg)) {
+      if (arg === "-C" && args[i + 1] !== undefined) {
+        directory = directory === undefined ? args[i + 1] : resolve(directory, args[i + 1]!);
+      }
+      i += 1;
+      continue;
+    }
+    if (arg.startsWith("-")) continue;
+    return { directory, subcommand: arg, rest: args.slice(i + 1) };
+  }
+
+  return { directory, subcommand: undefined, rest: [] };
+}
+
+/** Returns the directory git would run in, following repeated `-C` flags. */
+export function findGitDirectory(args: ReadonlyArray<string>): string | undefined {
+  return splitGitArgs(args).directory;
+}
+
+/** Returns the repository URL passed to `git clone`, if that is the command. */
+export function findGitCloneUrl(args: ReadonlyArray<string>): string | undefined {
+  const { subcommand, rest } = splitGitArgs(args);
+  if (subcommand !== "clone") return undefined;
+
+  for (let i = 0; i < rest.length; i += 1) {
+    const arg = rest[i]!;
+    if (arg === "--") return rest[i + 1];
+    if (GIT_CLONE_VALUE_OPTIONS.has(arg)) {
+      i += 1;
+      continue;
+    }
+    if (arg.startsWith("-")) continue;
+    return arg;
+  }
+  return undefined;
+}
@@ -0,0 +1,81 @@
+import { Context, Effect } from "effect";
+import { ClockSkewError, GitHubApiError } from "../errors.ts";
+
+/** How far GitHub's clock is from ours, learned from its `Date` headers. */
+export interface ClockSkew {
+  /** GitHub's time minus local time; positive when the local clock is slow. */
+  readonly offsetMs: () => number;
+  /** Records a response's `Date` header, received at local time `receivedAt`. */
+  readonly observe: (dateHeader: string | undefined, receivedAt?: number) => void;
+}
+
+export function makeClockSkew(): ClockSkew {
+  let offsetMs = 0;
+
+  return {
+    offsetMs: () => offsetMs,
+    observe: (dateHeader, receivedAt = Date.now()) => {
+      const serverTime = dateHeader === undefined ? NaN : Date.parse(dateHeader);
+      if (Number.isNaN(serverTime)) {
+        return;
+      }
+      // The header has whole seconds; assume the middle of that second
+      offsetMs = serverTime + 500 - receivedAt;
+    },
+  };
+}
+
+// One clock per process: it is the local clock that drifts, whichever
+// profile's requests notice it.
+const processClock = makeClockSkew();
+
+/** The skew estimate that GitHub API calls update and JWTs are signed with. */
+export class GitHubClock extends Context.Reference<GitHubClock>()(
+  "GitHubClock",
+  { defaultValue: (): ClockSkew => processClock }
+) {}
+
+/**
+ * Whether GitHub rejected a JWT for its `iat` or `exp` claim, e.g. "'Expiration
+ * time' claim ('exp') is too far in the future".
+ */
+export function isClockSkewRejection(error: unknown): error is GitHubApiError {
+  return (
+    error instanceof GitHubApiError &&
+    error.status === 401 &&
+    /\('(iat|exp)'\)/.test(error.message)
+  );
+}
+
+/**
+ * Runs `attempt`, and if GitHub rejects its JWT for the clock, runs `retry`
+ * once, which should sign a new JWT with the offset the rejection taught us.
+ * A second rejection fails with ClockSkewError.
+ */
+export const retryOnClockSkew = <A, E1, E2>(
+  attempt: Effect.Effect<A, E1>,
+  retry: () => Effect.Effect<A, E2>
+): Effect.Effect<A, E1 | E2 | ClockSkewError> =>
+  Effect.gen(function* () {
+    const first = yield* Effect.either(attempt);
+    if (first._tag === "Right") {
+      return first.right;
+    }
+    if (!isClockSkewRejection(first.left)) {
+      return yield* Effect.fail(first.left);
+    }
+
+    const second = yield* Effect.either(retry());
+    if (second._tag === "Right") {
+      return second.right;
+    }
+    if (!isClockSkewRejection(second.left)) {
+      return yield* Effect.fail(second.left);
+    }
+
+    const clock = yield* GitHubClock;
+    return yield* new ClockSkewError({
+      offsetMs: clock.offsetMs(),
+      message: second.left.message,
+    });
+  });
@@ -1,6 +1,7 @@
 import { Effect } from "effect";
 import { Data } from "effect";
 import { spawn } from "child_process";
+import { GITHUB_GIT_HOST } from "../git-credential.ts";
 
 export class CommandNotFound extends Data.TaggedError("CommandNotFound")<{
   readonly command: string;
@@ -17,10 +18,22 @@ export interface CommandResult {
   readonly stderr: string;
 }
 
-export function runGh(
+export const DEFAULT_TOKEN_ENV = ["GITHUB_TOKEN", "GH_TOKEN"] as const;
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function isValidEnvName(name: string): boolean {
+  return ENV_NAME_PATTERN.test(name);
+}
+
+/**
+ * Runs a command with the given environment, mirroring its output to this
+ * process while capturing it.
+ */
+export function runCommand(
+  command: string,
   args: readonly string[],
-  token: string,
-  command: string = "gh"
+  env: NodeJS.ProcessEnv
 ): Effect.Effect<CommandResult, CommandNotFound | CommandFailed> {
   return Effect.async<CommandResult, CommandNotFound | CommandFailed>(
     (resume) => {
@@ -28,11 +41,7 @@ export function runGh(
 
       try {
         proc = spawn(command, args, {
-          env: {
-            ...process.env,
-            GITHUB_TOKEN: token,
-            GH_TOKEN: token,
-          },
+          env,
           stdio: ["inherit", "pipe", "pipe"],
         });
       } catch {
@@ -75,69 +84,207 @@ export function runGh(
   );
 }
 
+/**
+ * Runs a command on this process's terminal, so prompts, pagers and colours
+ * keep working and output appears as it is written. Nothing is captured.
+ */
+function runAttached(
+  command: string,
+  args: readonly string[],
+  env: NodeJS.ProcessEnv
+): Effect.Effect<void, CommandNotFound | CommandFailed> {
+  return Effect.async<void, CommandNotFound | CommandFailed>((resume) => {
+    let proc: ReturnType<typeof spawn>;
+
+    try {
+      proc = spawn(command, args, { env, stdio: "inherit" });
+    } catch {
+      resume(Effect.fail(new CommandNotFound({ command })));
+      return;
+    }
+
+    proc.on("error", (err: NodeJS.ErrnoException) => {
+      if (err.code === "ENOENT") {
+        resume(Effect.fail(new CommandNotFound({ command })));
+      } else {
+        const message = String(err);
+        process.stderr.write(message + "\n");
+        resume(Effect.fail(new CommandFailed({ exitCode: 1, stderr: message })));
+      }
+    });
+
+    proc.on("close", (code) => {
+      const exitCode = code ?? 1;
+      if (exitCode !== 0) {
+        resume(Effect.fail(new CommandFailed({ exitCode, stderr: "" })));
+      } else {
+        resume(Effect.void);
+      }
+    });
+  });
+}
+
+/**
+ * Runs gh against `host`. gh reads the token from GH_ENTERPRISE_TOKEN for
+ * hosts other than github.com.
+ */
+export function runGh(
+  args: readonly string[],
+  token: string,
+  command: string = "gh",
+  host: string = GITHUB_GIT_HOST
+): Effect.Effect<CommandResult, CommandNotFound | CommandFailed> {
+  return runCommand(command, args, {
+    ...process.env,
+    GITHUB_TOKEN: token,
+    GH_TOKEN: token,
+    GH_HOST: host,
+    ...(host.toLowerCase() !== GITHUB_GIT_HOST
+      ? { GH_ENTERPRISE_TOKEN: token }
+      : {}),
+  });
+}
+
+/** Runs git with the token as the credential for `https://<host>`. */
 export function runGit(
   args: readonly string[],
   token: string,
-  command: string = "git"
+  command: string = "git",
+  host: string = GITHUB_GIT_HOST
 ): Effect.Effect<CommandResult, CommandNotFound | CommandFailed> {
-  return Effect.async<CommandResult, CommandNotFound | CommandFailed>(
-    (resume) => {
-      const gitArgs = [
-        "-c",
-        "credential.helper=",
-        "-c",
-        `credential.helper=!f() { echo "username=x-access-token"; echo "password=$APPTOKEN_GIT_TOKEN"; }; f`,
-        "-c",
-        "url.https://github.com/.insteadOf=git@github.com:",
-        ...args,
-      ];
-
-      const { GITHUB_TOKEN: _, GH_TOKEN: __, ...restEnv } = process.env;
-      const env = { ...restEnv, APPTOKEN_GIT_TOKEN: token };
+  // Scoped to the host so the token is never offered to other remotes; the
+  // empty value drops any helpers already configured for it.
+  const helperKey = `credential.https://${host}.helper`;
+  const gitArgs = [
+    "-c",
+    `${helperKey}=`,
+    "-c",
+    `${helperKey}=!f() { echo "username=x-access-token"; echo "password=$APPTOKEN_GIT_TOKEN"; }; f`,
+    "-c",
+    `url.https://${host}/.insteadOf=git@${host}:`,
+    ...args,
+  ];
 
-      let proc: ReturnType<typeof spawn>;
+  const { GITHUB_TOKEN: _, GH_TOKEN: __, ...restEnv } = process.env;
+  return runCommand(command, gitArgs, {
+    ...restEnv,
+    APPTOKEN_GIT_TOKEN: token,
+  });
+}
 
-      try {
-        proc = spawn(command, gitArgs, {
-          env,
-          stdio: ["inherit", "pipe", "pipe"],
-        });
-      } catch {
+/**
+ * Runs any command with the token exported under each of `envNames`, plus
+ * `APPTOKEN_EXPIRES_AT` so long-running tools can tell when it goes stale.
+ */
+export function runWithToken(
+  command: string,
+  args: readonly string[],
+  token: { readonly token: string; readonly expiresAt: Date },
+  envNames: readonly string[] = DEFAULT_TOKEN_ENV
+): Effect.Effect<void, CommandNotFound | CommandFailed> {
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    APPTOKEN_EXPIRES_AT: token.expiresAt.toISOString(),
+  };
+  for (const name of envNames) {
+    env[name] = token.token;
+  }
+  return runAttached(command, args, env);
+}
+
+function runQuiet(
+  command: string,
+  args: readonly string[]
+): Effect.Effect<void, CommandNotFound | CommandFailed> {
+  return Effect.async<void, CommandNotFound | CommandFailed>((resume) => {
+    let proc: ReturnType<typeof spawn>;
+
+    try {
+      proc = spawn(command, args, { stdio: ["ignore", "ignore", "pipe"] });
+    } catch {
+      resume(Effect.fail(new CommandNotFound({ command })));
+      return;
+    }
+
+    let stderr = "";
+
+    proc.stderr?.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+
+    proc.on("error", (err: NodeJS.ErrnoException) => {
+      if (err.code === "ENOENT") {
         resume(Effect.fail(new CommandNotFound({ command })));
-        return;
+      } else {
+        resume(Effect.fail(new CommandFailed({ exitCode: 1, stderr: String(err) })));
       }
+    });
 
-      let stdout = "";
-      let stderr = "";
+    proc.on("close", (code) => {
+      const exitCode = code ?? 1;
+      if (exitCode !== 0) {
+        resume(Effect.fail(new CommandFailed({ exitCode, stderr })));
+      } else {
+        resume(Effect.void);
+      }
+    });
+  });
+}
 
-      proc.stdout?.on("data", (chunk: Buffer) => {
-        process.stdout.write(chunk);
-        stdout += chunk.toString();
-      });
+/**
+ * Registers `helper` as the only credential helper for `https://<host>` in
+ * the global or local git config. Other helpers for the host are cleared so
+ * stale stored credentials cannot shadow fresh app tokens.
+ */
+export function configureGitCredentialHelper(
+  helper: string,
+  options: { readonly scope: "global" | "local"; readonly host: string },
+  command: string = "git"
+): Effect.Effect<void, CommandNotFound | CommandFailed> {
+  const key = `credential.https://${options.host}.helper`;
+  const scope = `--${options.scope}`;
 
-      proc.stderr?.on("data", (chunk: Buffer) => {
-        process.stderr.write(chunk);
-        stderr += chunk.toString();
-      });
+  return Effect.gen(function* () {
+    yield* runQuiet(command, ["config", scope, "--replace-all", key, ""]);
+    yield* runQuiet(command, ["config", scope, "--add", key, helper]);
+  });
+}
 
-      proc.on("error", (err: NodeJS.ErrnoException) => {
-        if (err.code === "ENOENT") {
-          resume(Effect.fail(new CommandNotFound({ command })));
-        } else {
-          const message = String(err);
-          process.stderr.write(message + "\n");
-          resume(Effect.fail(new CommandFailed({ exitCode: 1, stderr: message })));
-        }
-      });
+/**
+ * Reads the URL of a git remote, or `undefined` when `cwd` is not a
+ * repository, the remote does not exist or git is not installed.
+ */
+export function getGitRemoteUrl(
+  remote: string,
+  cwd?: string,
+  command: string = "git"
+): Effect.Effect<string | undefined> {
+  return Effect.async<string | undefined>((resume) => {
+    let proc: ReturnType<typeof spawn>;
 
-      proc.on("close", (code) => {
-        const exitCode = code ?? 1;
-        if (exitCode !== 0) {
-          resume(Effect.fail(new CommandFailed({ exitCode, stderr })));
-        } else {
-          resume(Effect.succeed({ exitCode, stdout, stderr }));
-        }
+    try {
+      proc = spawn(command, ["remote", "get-url", remote], {
+        stdio: ["ignore", "pipe", "ignore"],
+        ...(cwd !== undefined ? { cwd } : {}),
       });
+    } catch {
+      resume(Effect.succeed(undefined));
+      return;
     }
-  );
+
+    let stdout = "";
+
+    proc.stdout?.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString();
+    });
+
+    proc.on("error", () => {
+      resume(Effect.succeed(undefined));
+    });
+
+    proc.on("close", (code) => {
+      const url = stdout.trim();
+      resume(Effect.succeed(code === 0 && url !== "" ? url : undefined));
+    });
+  });
 }
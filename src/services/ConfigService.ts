@@ -1,30 +1,204 @@
-import { Effect } from "effect";
+import { Effect, ParseResult, Schema } from "effect";
 import {
   ConfigNotFound,
   ConfigParseError,
+  DecryptError,
   InvalidPassword,
   PemNotFound,
+  ProfileNotFound,
 } from "../errors.ts";
-import { randomBytes, createCipheriv, createDecipheriv, pbkdf2Sync } from "crypto";
-import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
-import { join } from "path";
+import {
+  randomBytes,
+  createCipheriv,
+  createDecipheriv,
+  pbkdf2Sync,
+  scryptSync,
+} from "crypto";
+import {
+  readFileSync,
+  writeFileSync,
+  mkdirSync,
+  existsSync,
+  rmSync,
+  statSync,
+  openSync,
+  closeSync,
+  fsyncSync,
+  chmodSync,
+  renameSync,
+} from "fs";
+import { dirname, join } from "path";
 import { homedir } from "os";
 
 export interface AppConfig {
   readonly appId: string;
   readonly installationId: string;
   readonly createdAt: string;
+  /** REST API root for GitHub Enterprise Server, e.g. `https://ghe.example.com/api/v3`. */
+  readonly apiBaseUrl?: string;
+  /** Host git and gh talk to; derived from `apiBaseUrl` when omitted. */
+  readonly gitHost?: string;
+  /** Extra CA bundle (PEM) to trust, relative to the config directory. */
+  readonly caFile?: string;
+  /** Shell command that prints the PEM password, e.g. `pass show apptoken`. */
+  readonly passwordCommand?: string;
+}
+
+/** A config-defined command such as `apptoken terraform ...`. */
+export interface WrapperConfig {
+  readonly command: string;
+  /** Variables that receive the token; defaults to GITHUB_TOKEN and GH_TOKEN. */
+  readonly env?: ReadonlyArray<string>;
+  readonly profile?: string;
+}
+
+/** Settings for the background daemon, shared by every profile. */
+export interface DaemonConfig {
+  /** Revoke every issued token when the daemon stops. */
+  readonly revokeOnStop?: boolean;
+  /** Stop after this long without requests, e.g. "30m". */
+  readonly idleTimeout?: string;
+  /** Stop this long after starting, e.g. "8h". */
+  readonly lifetime?: string;
+}
+
+/** How GitHub API calls retry network errors, 5xx responses and rate limits. */
+export interface RetryConfig {
+  /** Attempts after the first; 0 disables retrying. */
+  readonly maxRetries?: number;
+  /** Longest rate limit to wait out, e.g. "2m"; longer ones fail at once. */
+  readonly maxRateLimitWait?: string;
 }
 
-const PBKDF2_ITERATIONS = 100_000;
+export interface ConfigFile {
+  readonly defaultProfile: string;
+  readonly profiles: Readonly<Record<string, AppConfig>>;
+  readonly wrappers?: Readonly<Record<string, WrapperConfig>>;
+  readonly daemon?: DaemonConfig;
+  readonly retry?: RetryConfig;
+}
+
+const optional = <S extends Schema.Schema.Any>(schema: S) =>
+  Schema.optionalWith(schema, { exact: true });
+
+const AppConfigSchema: Schema.Schema<AppConfig> = Schema.Struct({
+  appId: Schema.String,
+  installationId: Schema.String,
+  createdAt: Schema.String,
+  apiBaseUrl: optional(Schema.String),
+  gitHost: optional(Schema.String),
+  caFile: optional(Schema.String),
+  passwordCommand: optional(Schema.String),
+});
+
+const ConfigFileSchema: Schema.Schema<ConfigFile> = Schema.Struct({
+  defaultProfile: Schema.String,
+  profiles: Schema.Record({ key: Schema.String, value: AppConfigSchema }),
+  wrappers: optional(
+    Schema.Record({
+      key: Schema.String,
+      value: Schema.Struct({
+        command: Schema.String,
+        env: optional(Schema.Array(Schema.String)),
+        profile: optional(Schema.String),
+      }),
+    })
+  ),
+  daemon: optional(
+    Schema.Struct({
+      revokeOnStop: optional(Schema.Boolean),
+      idleTimeout: optional(Schema.String),
+      lifetime: optional(Schema.String),
+    })
+  ),
+  retry: optional(
+    Schema.Struct({
+      maxRetries: optional(Schema.NonNegativeInt),
+      maxRateLimitWait: optional(Schema.String),
+    })
+  ),
+});
+
+// Unknown keys are kept so saving a config written by a newer apptoken does
+// not drop its settings.
+const decodeConfigFile = Schema.decodeUnknownEither(
+  Schema.Union(ConfigFileSchema, AppConfigSchema),
+  { onExcessProperty: "preserve" }
+);
+
+export const DEFAULT_PROFILE = "default";
+
+const PEM_FILENAME = "pem.enc";
+const CONFIG_FILENAME = "config.json";
+const PROFILES_DIRNAME = "profiles";
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
 const SALT_LENGTH = 32;
 const IV_LENGTH = 16;
 const AUTH_TAG_LENGTH = 16;
 const KEY_LENGTH = 32;
-const PEM_FILENAME = "pem.enc";
+const CIPHER = "aes-256-gcm";
+
+// Version 1 was the headerless `salt|iv|tag|ciphertext` base64 blob keyed
+// with PBKDF2; it is still read so existing pem.enc files keep working.
+const LEGACY_PBKDF2_ITERATIONS = 100_000;
+const PEM_FORMAT_VERSION = 2;
+
+/** scrypt cost for new files: 128 MiB and roughly a third of a second. */
+const SCRYPT_DEFAULTS = { N: 2 ** 17, r: 8, p: 1 } as const;
+const SCRYPT_MAX_MEMORY = 512 * 1024 * 1024;
 
-function deriveKey(password: string, salt: Buffer): Buffer {
-  return pbkdf2Sync(password, salt, PBKDF2_ITERATIONS, KEY_LENGTH, "sha256");
+const ScryptParams = Schema.Struct({
+  name: Schema.Literal("scrypt"),
+  N: Schema.Int,
+  r: Schema.Int,
+  p: Schema.Int,
+  salt: Schema.String,
+});
+
+/** The self-describing pem.enc contents; binary fields are base64. */
+const PemEnvelope = Schema.Struct({
+  version: Schema.Literal(PEM_FORMAT_VERSION),
+  kdf: ScryptParams,
+  cipher: Schema.Struct({
+    name: Schema.Literal(CIPHER),
+    iv: Schema.String,
+    tag: Schema.String,
+  }),
+  ciphertext: Schema.String,
+});
+type PemEnvelope = typeof PemEnvelope.Type;
+
+const decodeEnvelope = Schema.decodeUnknownEither(PemEnvelope);
+
+function deriveScryptKey(
+  password: string,
+  kdf: Omit<typeof ScryptParams.Type, "name">
+): Buffer {
+  return scryptSync(password, Buffer.from(kdf.salt, "base64"), KEY_LENGTH, {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: SCRYPT_MAX_MEMORY,
+  });
+}
+
+function decryptWithKey(
+  key: Buffer,
+  iv: Buffer,
+  authTag: Buffer,
+  ciphertext: Buffer
+): string {
+  const decipher = createDecipheriv(CIPHER, key, iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString(
+    "utf8"
+  );
+}
+
+/** Whether `encrypted` is a headerless file from before the envelope. */
+export function isLegacyPem(encrypted: string): boolean {
+  return !encrypted.trimStart().startsWith("{");
 }
 
 export const encryptPem = (
@@ -32,22 +206,33 @@ export const encryptPem = (
   password: string
 ): Effect.Effect<string, never> =>
   Effect.sync(() => {
-    const salt = randomBytes(SALT_LENGTH);
+    const kdf = {
+      ...SCRYPT_DEFAULTS,
+      salt: randomBytes(SALT_LENGTH).toString("base64"),
+    };
     const iv = randomBytes(IV_LENGTH);
-    const key = deriveKey(password, salt);
+    const key = deriveScryptKey(password, kdf);
 
-    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const cipher = createCipheriv(CIPHER, key, iv);
     const encrypted = Buffer.concat([
       cipher.update(pem, "utf8"),
       cipher.final(),
     ]);
-    const authTag = cipher.getAuthTag();
 
-    const combined = Buffer.concat([salt, iv, authTag, encrypted]);
-    return combined.toString("base64");
+    const envelope: PemEnvelope = {
+      version: PEM_FORMAT_VERSION,
+      kdf: { name: "scrypt", ...kdf },
+      cipher: {
+        name: CIPHER,
+        iv: iv.toString("base64"),
+        tag: cipher.getAuthTag().toString("base64"),
+      },
+      ciphertext: encrypted.toString("base64"),
+    };
+    return JSON.stringify(envelope) + "\n";
   });
 
-export const decryptPem = (
+const decryptLegacyPem = (
   encrypted: string,
   password: string
 ): Effect.Effect<string, InvalidPassword> =>
@@ -65,20 +250,79 @@ export const decryptPem = (
         SALT_LENGTH + IV_LENGTH + AUTH_TAG_LENGTH
       );
 
-      const key = deriveKey(password, salt);
+      const key = pbkdf2Sync(
+        password,
+        salt,
+        LEGACY_PBKDF2_ITERATIONS,
+        KEY_LENGTH,
+        "sha256"
+      );
+      return decryptWithKey(key, iv, authTag, ciphertext);
+    },
+    catch: () => new InvalidPassword(),
+  });
+
+const parseEnvelope = (
+  encrypted: string
+): Effect.Effect<PemEnvelope, DecryptError> =>
+  Effect.gen(function* () {
+    const parsed: unknown = yield* Effect.try({
+      try: () => JSON.parse(encrypted),
+      catch: () =>
+        new DecryptError({ message: "The encrypted PEM file is corrupt." }),
+    });
+
+    const version =
+      typeof parsed === "object" && parsed !== null && "version" in parsed
+        ? parsed.version
+        : undefined;
+    if (typeof version === "number" && version > PEM_FORMAT_VERSION) {
+      return yield* new DecryptError({
+        message: `The encrypted PEM uses format version ${version}, which needs a newer apptoken.`,
+      });
+    }
+
+    const envelope = decodeEnvelope(parsed);
+    if (envelope._tag === "Left") {
+      return yield* new DecryptError({
+        message: `Unsupported encrypted PEM format: ${ParseResult.TreeFormatter.formatErrorSync(envelope.left)}`,
+      });
+    }
+    return envelope.right;
+  });
 
-      const decipher = createDecipheriv("aes-256-gcm", key, iv);
-      decipher.setAuthTag(authTag);
+/** Decrypts a pem.enc written in the current or the legacy format. */
+export const decryptPem = (
+  encrypted: string,
+  password: string
+): Effect.Effect<string, InvalidPassword | DecryptError> => {
+  if (isLegacyPem(encrypted)) {
+    return decryptLegacyPem(encrypted, password);
+  }
 
-      const decrypted = Buffer.concat([
-        decipher.update(ciphertext),
-        decipher.final(),
-      ]);
+  return Effect.gen(function* () {
+    const { kdf, cipher, ciphertext } = yield* parseEnvelope(encrypted);
 
-      return decrypted.toString("utf8");
-    },
-    catch: () => new InvalidPassword(),
+    const key = yield* Effect.try({
+      try: () => deriveScryptKey(password, kdf),
+      catch: (error) =>
+        new DecryptError({
+          message: `Invalid scrypt parameters: ${error instanceof Error ? error.message : String(error)}`,
+        }),
+    });
+
+    return yield* Effect.try({
+      try: () =>
+        decryptWithKey(
+          key,
+          Buffer.from(cipher.iv, "base64"),
+          Buffer.from(cipher.tag, "base64"),
+          Buffer.from(ciphertext, "base64")
+        ),
+      catch: () => new InvalidPassword(),
+    });
   });
+};
 
 export function getConfigDir(): string {
   const xdg = process.env["XDG_CONFIG_HOME"];
@@ -86,39 +330,30 @@ export function getConfigDir(): string {
   return join(base, "apptoken");
 }
 
-export function getPemPath(configDir?: string): string {
-  const dir = configDir ?? getConfigDir();
-  return join(dir, PEM_FILENAME);
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME_PATTERN.test(name);
 }
 
-export const saveConfig = (
-  config: AppConfig,
-  configDir?: string
-): Effect.Effect<void, never> =>
-  Effect.sync(() => {
-    const dir = configDir ?? getConfigDir();
-    mkdirSync(dir, { recursive: true });
-    const configPath = join(dir, "config.json");
-    writeFileSync(configPath, JSON.stringify(config, null, 2), "utf8");
-  });
+// The default profile keeps the original single-app location so configs
+// written before profiles existed keep working without migration.
+export function getPemPath(configDir?: string, profile?: string): string {
+  const dir = configDir ?? getConfigDir();
+  if (profile === undefined || profile === DEFAULT_PROFILE) {
+    return join(dir, PEM_FILENAME);
+  }
+  return join(dir, PROFILES_DIRNAME, profile, PEM_FILENAME);
+}
 
-export const saveEncryptedPem = (
-  encryptedPem: string,
-  configDir?: string
-): Effect.Effect<void, never> =>
-  Effect.sync(() => {
-    const dir = configDir ?? getConfigDir();
-    mkdirSync(dir, { recursive: true });
-    const pemPath = getPemPath(dir);
-    writeFileSync(pemPath, encryptedPem, "utf8");
-  });
+function isLegacyConfig(value: ConfigFile | AppConfig): value is AppConfig {
+  return !("profiles" in value);
+}
 
-export const loadConfig = (
+export const loadConfigFile = (
   configDir?: string
-): Effect.Effect<AppConfig, ConfigNotFound | ConfigParseError> =>
+): Effect.Effect<ConfigFile, ConfigNotFound | ConfigParseError> =>
   Effect.gen(function* () {
     const dir = configDir ?? getConfigDir();
-    const configPath = join(dir, "config.json");
+    const configPath = join(dir, CONFIG_FILENAME);
 
     if (!existsSync(configPath)) {
       return yield* new ConfigNotFound({ path: configPath });
@@ -126,20 +361,147 @@ export const loadConfig = (
 
     const content = readFileSync(configPath, "utf8");
 
+    let parsed: unknown;
     try {
-      return JSON.parse(content) as AppConfig;
+      parsed = JSON.parse(content);
     } catch {
       return yield* new ConfigParseError({
         message: `Failed to parse config at ${configPath}`,
       });
     }
+
+    const decoded = decodeConfigFile(parsed);
+    if (decoded._tag === "Left") {
+      return yield* new ConfigParseError({
+        message: `Invalid config at ${configPath}: ${ParseResult.TreeFormatter.formatErrorSync(decoded.left)}`,
+      });
+    }
+
+    const config = decoded.right;
+    if (isLegacyConfig(config)) {
+      return {
+        defaultProfile: DEFAULT_PROFILE,
+        profiles: { [DEFAULT_PROFILE]: config },
+      };
+    }
+
+    return config;
   });
 
-export const loadEncryptedPem = (
+export const saveConfigFile = (
+  file: ConfigFile,
   configDir?: string
+): Effect.Effect<void, never> =>
+  Effect.sync(() => {
+    const dir = configDir ?? getConfigDir();
+    mkdirSync(dir, { recursive: true });
+    const configPath = join(dir, CONFIG_FILENAME);
+    writeFileSync(configPath, JSON.stringify(file, null, 2), "utf8");
+  });
+
+const loadConfigFileOrEmpty = (
+  configDir?: string
+): Effect.Effect<ConfigFile, ConfigParseError> =>
+  loadConfigFile(configDir).pipe(
+    Effect.catchTag("ConfigNotFound", () =>
+      Effect.succeed<ConfigFile>({ defaultProfile: "", profiles: {} })
+    )
+  );
+
+export const loadDaemonConfig = (
+  configDir?: string
+): Effect.Effect<DaemonConfig, ConfigParseError> =>
+  loadConfigFileOrEmpty(configDir).pipe(Effect.map((file) => file.daemon ?? {}));
+
+export const loadRetryConfig = (
+  configDir?: string
+): Effect.Effect<RetryConfig, ConfigParseError> =>
+  loadConfigFileOrEmpty(configDir).pipe(Effect.map((file) => file.retry ?? {}));
+
+export const saveConfig = (
+  config: AppConfig,
+  configDir?: string,
+  profile: string = DEFAULT_PROFILE
+): Effect.Effect<void, ConfigParseError> =>
+  Effect.gen(function* () {
+    const file = yield* loadConfigFileOrEmpty(configDir);
+    const defaultProfile =
+      Object.hasOwn(file.profiles, file.defaultProfile)
+        ? file.defaultProfile
+        : profile;
+
+    yield* saveConfigFile(
+      {
+        ...file,
+        defaultProfile,
+        profiles: { ...file.profiles, [profile]: config },
+      },
+      configDir
+    );
+  });
+
+// Writes beside `path` and renames over it, so a crash leaves either the old
+// file or the new one, never a truncated key. Keeps the old file's mode.
+function writeFileAtomic(path: string, data: string): void {
+  const tempPath = `${path}.${process.pid}.tmp`;
+  const mode = existsSync(path) ? statSync(path).mode & 0o777 : 0o600;
+  try {
+    const fd = openSync(tempPath, "w", mode);
+    try {
+      writeFileSync(fd, data, "utf8");
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    chmodSync(tempPath, mode);
+    renameSync(tempPath, path);
+  } catch (error) {
+    rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+export const saveEncryptedPem = (
+  encryptedPem: string,
+  configDir?: string,
+  profile?: string
+): Effect.Effect<void, never> =>
+  Effect.sync(() => {
+    const pemPath = getPemPath(configDir, profile);
+    mkdirSync(dirname(pemPath), { recursive: true });
+    writeFileAtomic(pemPath, encryptedPem);
+  });
+
+export const resolveProfileName = (
+  file: ConfigFile,
+  profile?: string
+): Effect.Effect<string, ProfileNotFound> => {
+  const name = profile ?? file.defaultProfile;
+  if (!Object.hasOwn(file.profiles, name)) {
+    return Effect.fail(new ProfileNotFound({ profile: name }));
+  }
+  return Effect.succeed(name);
+};
+
+export const loadConfig = (
+  configDir?: string,
+  profile?: string
+): Effect.Effect<
+  AppConfig,
+  ConfigNotFound | ConfigParseError | ProfileNotFound
+> =>
+  Effect.gen(function* () {
+    const file = yield* loadConfigFile(configDir);
+    const name = yield* resolveProfileName(file, profile);
+    return file.profiles[name]!;
+  });
+
+export const loadEncryptedPem = (
+  configDir?: string,
+  profile?: string
 ): Effect.Effect<string, PemNotFound> =>
   Effect.gen(function* () {
-    const resolvedPath = getPemPath(configDir);
+    const resolvedPath = getPemPath(configDir, profile);
     if (!existsSync(resolvedPath)) {
       return yield* Effect.fail(new PemNotFound({ path: resolvedPath }));
     }
@@ -149,3 +511,43 @@ export const loadEncryptedPem = (
       return yield* Effect.fail(new PemNotFound({ path: resolvedPath }));
     }
   });
+
+export const setDefaultProfile = (
+  profile: string,
+  configDir?: string
+): Effect.Effect<
+  void,
+  ConfigNotFound | ConfigParseError | ProfileNotFound
+> =>
+  Effect.gen(function* () {
+    const file = yield* loadConfigFile(configDir);
+    yield* resolveProfileName(file, profile);
+    yield* saveConfigFile({ ...file, defaultProfile: profile }, configDir);
+  });
+
+export const removeProfile = (
+  profile: string,
+  configDir?: string
+): Effect.Effect<
+  void,
+  ConfigNotFound | ConfigParseError | ProfileNotFound
+> =>
+  Effect.gen(function* () {
+    const file = yield* loadConfigFile(configDir);
+    yield* resolveProfileName(file, profile);
+
+    const { [profile]: _removed, ...profiles } = file.profiles;
+    const remaining = Object.keys(profiles);
+    const defaultProfile =
+      file.defaultProfile === profile
+        ? (remaining[0] ?? DEFAULT_PROFILE)
+        : file.defaultProfile;
+
+    yield* saveConfigFile({ ...file, defaultProfile, profiles }, configDir);
+
+    const pemPath = getPemPath(configDir, profile);
+    rmSync(pemPath, { force: true });
+    if (profile !== DEFAULT_PROFILE) {
+      rmSync(dirname(pemPath), { recursive: true, force: true });
+    }
+  });
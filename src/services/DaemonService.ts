@@ -1,5 +1,6 @@
-import { Effect } from "effect";
-import { createServer, type Server } from "net";
+import { Deferred, Effect, Exit, Fiber, FiberId } from "effect";
+import { createServer, type Server, type Socket } from "net";
+import { randomBytes, timingSafeEqual } from "crypto";
 import {
   chmodSync,
   existsSync,
@@ -7,12 +8,38 @@ import {
   writeFileSync,
   readFileSync,
 } from "fs";
-import type { TokenService } from "./TokenService.ts";
+import {
+  forgetExpiredTokens,
+  revokeIssuedTokens,
+  type IssuedTokens,
+  type TokenService,
+} from "./TokenService.ts";
 import {
   DaemonAlreadyRunning,
   DaemonNotRunning,
+  DaemonAuthFailed,
   DaemonError,
+  DaemonLocked,
+  ProfileNotLoaded,
 } from "../errors.ts";
+import { getPeerUid } from "./PeerCredentials.ts";
+import { formatError } from "../format-error.ts";
+import { DEFAULT_PROFILE } from "./ConfigService.ts";
+import {
+  makeTokenRefresher,
+  type RefreshOptions,
+  type TokenRefresher,
+} from "./TokenRefresher.ts";
+import {
+  fromErrorPayload,
+  handleMessage,
+  serveTokenRequest,
+  type Action,
+  type ActionResult,
+  type DaemonStatusReport,
+  type ErrorPayload,
+  type Request,
+} from "./SocketProtocol.ts";
 
 export interface DaemonStatus {
   readonly running: boolean;
@@ -22,13 +49,43 @@ export interface DaemonStatus {
 export interface DaemonServiceConfig<E1, E2> {
   readonly socketPath: string;
   readonly pidPath: string;
-  readonly tokenService: TokenService<E1, E2>;
+  /** Omit to start locked; `unlock` then loads the profile. */
+  readonly tokenService?: TokenService<E1, E2>;
+  /** Profile served by `tokenService`; defaults to "default". */
+  readonly profile?: string;
+  /** Decrypts a profile, for `unlock` and for serving several profiles. */
+  readonly loadProfile?: (
+    profile: string,
+    password: string
+  ) => Effect.Effect<TokenService<E1, E2>, unknown>;
+  /** Revoke every token issued by every profile when `stop()` runs. */
+  readonly revokeOnStop?: boolean;
+  /** Renew cached tokens in the background; omitted means lazy refresh only. */
+  readonly refresh?: RefreshOptions;
+  /** Stop after this long without requests (status queries do not count). */
+  readonly idleTimeoutMs?: number;
+  /** Stop this long after starting, however busy the daemon is. */
+  readonly lifetimeMs?: number;
+  /**
+   * Where to write the per-session secret that clients must present when
+   * their UID cannot be checked. When omitted, they need no handshake.
+   */
+  readonly secretPath?: string;
+  /** Identifies the peer's UID; defaults to the platform's peer credentials. */
+  readonly peerUid?: (socket: Socket) => number | undefined;
+  /** Where rejected connections are reported; defaults to stderr. */
+  readonly log?: (message: string) => void;
 }
 
 export interface DaemonService {
   readonly start: () => Effect.Effect<void, DaemonAlreadyRunning | DaemonError>;
   readonly stop: () => Effect.Effect<void, DaemonNotRunning | DaemonError>;
   readonly status: () => Effect.Effect<DaemonStatus>;
+  /**
+   * Completes once a started daemon has stopped, whether through `stop()`,
+   * the idle timeout or the lifetime.
+   */
+  readonly awaitStop: () => Effect.Effect<void>;
 }
 
 function isProcessAlive(pid: number): boolean {
@@ -40,45 +97,258 @@ function isProcessAlive(pid: number): boolean {
   }
 }
 
-function handleRequest<E1, E2>(
-  raw: string,
+// Status queries and handshakes must not keep an idle daemon alive.
+const UNCOUNTED_ACTIONS: ReadonlySet<Action> = new Set([
+  "ping",
+  "hello",
+  "status",
+]);
+
+function defaultLog(message: string) {
+  console.error(`${new Date().toISOString()} ${message}`);
+}
+
+function secretMatches(candidate: string, secret: string): boolean {
+  const a = Buffer.from(candidate);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Creates a fresh session secret readable only by the daemon's user. */
+function writeSecret(path: string): Effect.Effect<string, DaemonError> {
+  return Effect.try({
+    try: () => {
+      const value = randomBytes(32).toString("hex");
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+      // "wx" refuses to follow a symlink planted in place of the old file
+      writeFileSync(path, value, { mode: 0o600, flag: "wx" });
+      return value;
+    },
+    catch: (err) =>
+      new DaemonError({
+        message: `Cannot write the session secret: ${err instanceof Error ? err.message : String(err)}`,
+      }),
+  });
+}
+
+interface DaemonState<E1, E2> {
+  readonly profiles: Map<string, TokenService<E1, E2>>;
+  /**
+   * Tokens issued by token services that `lock` or a reload dropped, by
+   * profile. They stay valid until they expire, so revocation covers them.
+   */
+  readonly retired: Map<string, IssuedTokens<E2>>;
+  readonly refresher: TokenRefresher | undefined;
+  /** Set by `lock`: no decrypted keys or cached tokens until `unlock`. */
+  locked: boolean;
+  startedAt: Date;
+  requests: number;
+  failedRequests: number;
+  lastError: { readonly message: string; readonly at: string } | undefined;
+}
+
+function statusReport<E1, E2>(
+  state: DaemonState<E1, E2>
+): Effect.Effect<DaemonStatusReport> {
+  return Effect.gen(function* () {
+    const profiles: Array<DaemonStatusReport["profiles"][number]> = [];
+    for (const [profile, tokenService] of state.profiles) {
+      const info = yield* tokenService.info();
+      profiles.push({
+        profile,
+        appId: info.appId,
+        installationId: info.installationId,
+        cachedTokens: info.cachedTokens.map((token) => ({
+          ...token,
+          expiresAt: token.expiresAt.toISOString(),
+        })),
+      });
+    }
+
+    return {
+      pid: process.pid,
+      startedAt: state.startedAt.toISOString(),
+      uptimeMs: Date.now() - state.startedAt.getTime(),
+      locked: state.locked,
+      profiles,
+      requests: { total: state.requests, failed: state.failedRequests },
+      ...(state.lastError ? { lastError: state.lastError } : {}),
+      ...(state.refresher ? { refresh: state.refresher.state() } : {}),
+    };
+  });
+}
+
+// Keeps the tokens of a token service that is being dropped revocable.
+function retire<E1, E2>(
+  state: DaemonState<E1, E2>,
+  profile: string,
   tokenService: TokenService<E1, E2>
-): Effect.Effect<string, never> {
+): Effect.Effect<void> {
+  return Effect.map(tokenService.release(), (released) => {
+    const previous = state.retired.get(profile);
+    const tokens = new Map([...(previous?.tokens ?? []), ...released.tokens]);
+    forgetExpiredTokens(tokens);
+    const revoke = released.revoke ?? previous?.revoke;
+    state.retired.set(profile, { tokens, ...(revoke ? { revoke } : {}) });
+  });
+}
+
+// Loads a profile in place of any token service already serving it.
+function loadProfileInto<E1, E2>(
+  state: DaemonState<E1, E2>,
+  profile: string,
+  load: Effect.Effect<TokenService<E1, E2>, unknown>
+): Effect.Effect<void, unknown> {
   return Effect.gen(function* () {
-    let parsed: { action?: string };
-    try {
-      parsed = JSON.parse(raw.trim()) as { action?: string };
-    } catch {
-      return JSON.stringify({ ok: false, error: "Invalid JSON" });
+    const tokenService = yield* load;
+    const previous = state.profiles.get(profile);
+    if (previous) {
+      yield* retire(state, profile, previous);
     }
+    state.profiles.set(profile, tokenService);
+    state.locked = false;
+  });
+}
 
-    if (parsed.action === "ping") {
-      return JSON.stringify({ ok: true, pong: true });
+// Revokes a profile's tokens, including those of token services dropped
+// since they were issued. Works while locked: revoking needs no key.
+function revokeProfile<E1, E2>(
+  state: DaemonState<E1, E2>,
+  profile: string
+): Effect.Effect<number, DaemonLocked | ProfileNotLoaded | E2> {
+  return Effect.gen(function* () {
+    const tokenService = state.locked ? undefined : state.profiles.get(profile);
+    const retired = state.retired.get(profile);
+    if (!tokenService && !retired) {
+      return yield* state.locked
+        ? new DaemonLocked()
+        : new ProfileNotLoaded({ profile });
     }
 
-    if (parsed.action === "getToken") {
-      const result = yield* Effect.either(
-        tokenService.getInstallationToken()
-      );
-
-      if (result._tag === "Right") {
-        return JSON.stringify({
-          ok: true,
-          token: result.right.token,
-          expiresAt: result.right.expiresAt.toISOString(),
-        });
+    let revoked = 0;
+    if (retired) {
+      revoked += yield* revokeIssuedTokens(retired);
+      if (retired.tokens.size === 0) {
+        state.retired.delete(profile);
       }
-
-      return JSON.stringify({
-        ok: false,
-        error: String(result.left),
-      });
     }
+    if (tokenService) {
+      revoked += yield* tokenService.revokeTokens();
+    }
+    return revoked;
+  });
+}
 
-    return JSON.stringify({
-      ok: false,
-      error: `Unknown action: ${parsed.action ?? "(none)"}`,
-    });
+// Counts a non-status request and remembers the last failure.
+function recordResponse<E1, E2>(
+  state: DaemonState<E1, E2>,
+  error: ErrorPayload | undefined
+) {
+  state.requests += 1;
+  if (error !== undefined) {
+    state.failedRequests += 1;
+    state.lastError = {
+      message: formatError(fromErrorPayload(error)),
+      at: new Date().toISOString(),
+    };
+  }
+}
+
+function handleRequest<E1, E2>(
+  request: Request,
+  config: DaemonServiceConfig<E1, E2>,
+  state: DaemonState<E1, E2>
+): Effect.Effect<ActionResult<Action>, unknown> {
+  const { profiles } = state;
+  const primaryProfile = config.profile ?? DEFAULT_PROFILE;
+
+  return Effect.gen(function* () {
+    switch (request.action) {
+      case "ping":
+        return { pong: true as const };
+
+      // Checked before the request reaches here
+      case "hello":
+        return {};
+
+      case "status":
+        return { status: yield* statusReport(state) };
+
+      case "lock":
+        if (!config.loadProfile) {
+          return yield* new DaemonError({
+            message: "This daemon cannot be unlocked once locked",
+          });
+        }
+
+        // Dropping the token services releases the decrypted keys and the
+        // cache; what they issued is kept only to be revoked.
+        for (const [profile, tokenService] of profiles) {
+          yield* retire(state, profile, tokenService);
+        }
+        profiles.clear();
+        state.locked = true;
+        return {};
+
+      case "unlock": {
+        if (!config.loadProfile) {
+          return yield* new DaemonError({
+            message: "This daemon cannot load profiles",
+          });
+        }
+
+        const profile = request.profile ?? primaryProfile;
+        yield* loadProfileInto(
+          state,
+          profile,
+          config.loadProfile(profile, request.password)
+        );
+        return {};
+      }
+
+      case "profiles":
+        return { profiles: [...profiles.keys()] };
+
+      // Loading a profile with its password unlocks, just like `unlock`
+      case "addProfile":
+        if (!config.loadProfile) {
+          return yield* new DaemonError({
+            message: "This daemon cannot load profiles",
+          });
+        }
+
+        yield* loadProfileInto(
+          state,
+          request.profile,
+          config.loadProfile(request.profile, request.password)
+        );
+        return {};
+
+      case "revoke":
+        return {
+          revoked: yield* revokeProfile(
+            state,
+            request.profile ?? primaryProfile
+          ),
+        };
+
+      case "getToken":
+      case "resolveInstallation": {
+        if (state.locked) {
+          return yield* new DaemonLocked();
+        }
+
+        const profile = request.profile ?? primaryProfile;
+        const tokenService = profiles.get(profile);
+        if (!tokenService) {
+          return yield* new ProfileNotLoaded({ profile });
+        }
+
+        return yield* serveTokenRequest(tokenService, request);
+      }
+    }
   });
 }
 
@@ -86,8 +356,131 @@ export function makeDaemonService<E1, E2>(
   config: DaemonServiceConfig<E1, E2>
 ): DaemonService {
   let server: Server | undefined;
+  let refreshFiber: Fiber.RuntimeFiber<never> | undefined;
+  const profiles = new Map<string, TokenService<E1, E2>>(
+    config.tokenService
+      ? [[config.profile ?? DEFAULT_PROFILE, config.tokenService]]
+      : []
+  );
+  const state: DaemonState<E1, E2> = {
+    profiles,
+    retired: new Map(),
+    refresher: config.refresh
+      ? makeTokenRefresher(() => profiles.values(), config.refresh)
+      : undefined,
+    locked: config.tokenService === undefined,
+    startedAt: new Date(),
+    requests: 0,
+    failedRequests: 0,
+    lastError: undefined,
+  };
+  const { refresher } = state;
+  let stopped = Deferred.unsafeMake<void>(FiberId.none);
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  let secret: string | undefined;
+  const log = config.log ?? defaultLog;
+  let lifetimeTimer: ReturnType<typeof setTimeout> | undefined;
 
-  return {
+  const clearTimers = () => {
+    clearTimeout(idleTimer);
+    clearTimeout(lifetimeTimer);
+    idleTimer = undefined;
+    lifetimeTimer = undefined;
+  };
+
+  const resetIdleTimer = () => {
+    if (config.idleTimeoutMs === undefined) return;
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      Effect.runFork(Effect.ignore(service.stop()));
+    }, config.idleTimeoutMs);
+  };
+
+  const removeSecret = () => {
+    secret = undefined;
+    if (config.secretPath && existsSync(config.secretPath)) {
+      unlinkSync(config.secretPath);
+    }
+  };
+
+  const onConnection = (socket: Socket) => {
+    const ownUid = process.getuid?.();
+    const peerUid = (config.peerUid ?? getPeerUid)(socket);
+    if (peerUid !== undefined && ownUid !== undefined && peerUid !== ownUid) {
+      log(`Rejected connection from UID ${peerUid}`);
+      socket.destroy();
+      return;
+    }
+
+    // A verified peer needs no handshake, and neither does a daemon that
+    // has no session secret.
+    let authenticated = peerUid !== undefined || secret === undefined;
+
+    const authorize = (request: Request) =>
+      Effect.gen(function* () {
+        if (request.action === "hello") {
+          if (secret !== undefined && !secretMatches(request.secret, secret)) {
+            log("Rejected handshake with a wrong session secret");
+            return yield* new DaemonAuthFailed({
+              message: "wrong session secret",
+            });
+          }
+          authenticated = true;
+        } else if (!authenticated && request.action !== "ping") {
+          log(`Rejected ${request.action} request without the session secret`);
+          return yield* new DaemonAuthFailed({
+            message: "the session secret is required",
+          });
+        }
+      });
+
+    // A client that hangs up early must not take the daemon down
+    socket.on("error", () => {});
+
+    let buffer = "";
+    // Lines are handled in order: a request may rely on the hello before it
+    let pending = Promise.resolve();
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      let newlineIndex = buffer.indexOf("\n");
+      while (newlineIndex !== -1) {
+        const message = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf("\n");
+
+        pending = pending
+          .then(() => {
+            if (socket.writableEnded) {
+              // Refused earlier on this connection; ignore what follows
+              return undefined;
+            }
+            return Effect.runPromise(
+              handleMessage(message, (request) =>
+                Effect.zipRight(
+                  authorize(request),
+                  handleRequest(request, config, state)
+                )
+              )
+            );
+          })
+          .then((handled) => {
+            if (!handled || socket.destroyed) return;
+            const { request, error, response } = handled;
+            if (!request || !UNCOUNTED_ACTIONS.has(request.action)) {
+              resetIdleTimer();
+              recordResponse(state, error);
+            }
+            if (error?._tag === "DaemonAuthFailed") {
+              socket.end(response + "\n");
+            } else {
+              socket.write(response + "\n");
+            }
+          });
+      }
+    });
+  };
+
+  const service: DaemonService = {
     start: () =>
       Effect.gen(function* () {
         // Check if already running in this instance
@@ -111,38 +504,28 @@ export function makeDaemonService<E1, E2>(
           unlinkSync(config.socketPath);
         }
 
+        if (config.secretPath) {
+          secret = yield* writeSecret(config.secretPath);
+        }
+
         // Start the socket server
         const srv = yield* Effect.tryPromise({
           try: () =>
             new Promise<Server>((resolve, reject) => {
-              const s = createServer((socket) => {
-                let buffer = "";
-                socket.on("data", (chunk) => {
-                  buffer += chunk.toString();
-                  const newlineIndex = buffer.indexOf("\n");
-                  if (newlineIndex !== -1) {
-                    const message = buffer.slice(0, newlineIndex);
-                    buffer = buffer.slice(newlineIndex + 1);
-                    Effect.runPromise(
-                      handleRequest(message, config.tokenService)
-                    )
-                      .then((response) => {
-                        socket.write(response + "\n");
-                      })
-                      .catch((err) => {
-                        socket.write(
-                          JSON.stringify({ ok: false, error: String(err) }) +
-                            "\n"
-                        );
-                      });
-                  }
-                });
-              });
+              const s = createServer(onConnection);
               s.listen(config.socketPath, () => {
+                // The socket's mode is the first line of defence on a shared
+                // host, so refuse to run without it.
                 try {
                   chmodSync(config.socketPath, 0o600);
-                } catch {
-                  // ignore permission errors
+                } catch (err) {
+                  s.close();
+                  reject(
+                    new Error(
+                      `Cannot restrict socket permissions: ${err instanceof Error ? err.message : String(err)}`
+                    )
+                  );
+                  return;
                 }
                 resolve(s);
               });
@@ -152,12 +535,25 @@ export function makeDaemonService<E1, E2>(
             new DaemonError({
               message: err instanceof Error ? err.message : String(err),
             }),
-        });
+        }).pipe(Effect.tapError(() => Effect.sync(removeSecret)));
 
         server = srv;
 
         // Write PID file
         writeFileSync(config.pidPath, String(process.pid), "utf8");
+
+        if (refresher) {
+          refreshFiber = Effect.runFork(refresher.run);
+        }
+
+        stopped = Deferred.unsafeMake<void>(FiberId.none);
+        state.startedAt = new Date();
+        resetIdleTimer();
+        if (config.lifetimeMs !== undefined) {
+          lifetimeTimer = setTimeout(() => {
+            Effect.runFork(Effect.ignore(service.stop()));
+          }, config.lifetimeMs);
+        }
       }),
 
     stop: () =>
@@ -168,20 +564,38 @@ export function makeDaemonService<E1, E2>(
 
         const srv = server;
         server = undefined;
+        clearTimers();
 
-        yield* Effect.tryPromise({
-          try: () =>
-            new Promise<void>((resolve, reject) => {
-              srv.close((err) => {
-                if (err) reject(err);
-                else resolve();
-              });
-            }),
-          catch: (err) =>
-            new DaemonError({
-              message: err instanceof Error ? err.message : String(err),
-            }),
-        });
+        if (refreshFiber) {
+          yield* Fiber.interrupt(refreshFiber);
+          refreshFiber = undefined;
+        }
+
+        const closed = yield* Effect.either(
+          Effect.tryPromise({
+            try: () =>
+              new Promise<void>((resolve, reject) => {
+                srv.close((err) => {
+                  if (err) reject(err);
+                  else resolve();
+                });
+              }),
+            catch: (err) =>
+              new DaemonError({
+                message: err instanceof Error ? err.message : String(err),
+              }),
+          })
+        );
+
+        // Best effort: a failed revocation must not keep the daemon alive.
+        if (config.revokeOnStop) {
+          for (const retired of state.retired.values()) {
+            yield* Effect.either(revokeIssuedTokens(retired));
+          }
+          for (const tokenService of profiles.values()) {
+            yield* Effect.either(tokenService.revokeTokens());
+          }
+        }
 
         // Clean up files
         if (existsSync(config.socketPath)) {
@@ -190,6 +604,13 @@ export function makeDaemonService<E1, E2>(
         if (existsSync(config.pidPath)) {
           unlinkSync(config.pidPath);
         }
+        removeSecret();
+
+        Deferred.unsafeDone(stopped, Exit.void);
+
+        if (closed._tag === "Left") {
+          return yield* Effect.fail(closed.left);
+        }
       }),
 
     status: () =>
@@ -209,5 +630,9 @@ export function makeDaemonService<E1, E2>(
 
         return { running: false };
       }),
+
+    awaitStop: () => Deferred.await(stopped),
   };
+
+  return service;
 }
@@ -1,33 +1,244 @@
-import { Effect } from "effect";
-import { HttpClient, HttpClientRequest } from "@effect/platform";
-import { GitHubApiError } from "../errors.ts";
+import { Context, Duration, Effect, ParseResult, Schema } from "effect";
+import {
+  HttpClient,
+  HttpClientRequest,
+  type HttpClientResponse,
+} from "@effect/platform";
+import {
+  GitHubApiError,
+  type ProxyError,
+  type RateLimitInfo,
+  type TlsError,
+} from "../errors.ts";
+import { GITHUB_API_BASE_URL } from "../github-host.ts";
+import { HttpTransport, transportError } from "./HttpTransport.ts";
+import { GitHubClock } from "./ClockSkew.ts";
+import type { InstallationToken, TokenScope } from "./TokenService.ts";
 
-export interface InstallationToken {
-  readonly token: string;
-  readonly expiresAt: Date;
+/** What a GitHub API call can fail with. */
+export type GitHubRequestError = GitHubApiError | ProxyError | TlsError;
+
+const optional = <S extends Schema.Schema.Any>(schema: S) =>
+  Schema.optionalWith(schema, { exact: true });
+
+/** The fields we use from `POST /app/installations/{id}/access_tokens`. */
+const AccessTokenResponse = Schema.Struct({
+  token: Schema.NonEmptyString,
+  expires_at: Schema.Date,
+  permissions: optional(
+    Schema.Record({ key: Schema.String, value: Schema.String })
+  ),
+  repositories: optional(
+    Schema.Array(Schema.Struct({ full_name: Schema.String }))
+  ),
+});
+export type AccessTokenResponse = typeof AccessTokenResponse.Type;
+
+/** Maps a GitHub access token response to an InstallationToken. */
+export function toInstallationToken(
+  body: AccessTokenResponse
+): InstallationToken {
+  return {
+    token: body.token,
+    expiresAt: body.expires_at,
+    ...(body.permissions ? { permissions: body.permissions } : {}),
+    ...(body.repositories
+      ? { repositories: body.repositories.map((repo) => repo.full_name) }
+      : {}),
+  };
 }
 
-export const requestInstallationToken = (
-  jwt: string,
-  installationId: string
-): Effect.Effect<InstallationToken, GitHubApiError, HttpClient.HttpClient> =>
-  Effect.gen(function* () {
-    const client = yield* HttpClient.HttpClient;
+/**
+ * Body for `POST /app/installations/{id}/access_tokens`, or undefined when the
+ * token should carry the installation's full access.
+ */
+export function installationTokenRequestBody(
+  scope?: TokenScope
+): Record<string, unknown> | undefined {
+  const body: Record<string, unknown> = {};
+  if (scope?.repositories && scope.repositories.length > 0) {
+    body["repositories"] = scope.repositories;
+  }
+  if (scope?.permissions && Object.keys(scope.permissions).length > 0) {
+    body["permissions"] = scope.permissions;
+  }
+  return Object.keys(body).length > 0 ? body : undefined;
+}
 
-    const request = HttpClientRequest.post(
-      `https://api.github.com/app/installations/${installationId}/access_tokens`
-    ).pipe(
-      HttpClientRequest.setHeader("authorization", `Bearer ${jwt}`),
-      HttpClientRequest.setHeader("accept", "application/vnd.github+json")
-    );
+export interface Installation {
+  readonly id: string;
+  readonly account: string;
+  readonly accountType: string;
+  readonly repositorySelection: string;
+}
+
+const InstallationResponse = Schema.Struct({
+  id: Schema.Number,
+  account: Schema.NullOr(
+    Schema.Struct({ login: Schema.String, type: Schema.String })
+  ),
+  repository_selection: Schema.String,
+});
+type InstallationResponse = typeof InstallationResponse.Type;
+
+/** The GitHub App a JWT authenticates as. */
+export interface App {
+  readonly id: string;
+  readonly slug: string;
+  readonly name: string;
+  /** Also accepted as the JWT issuer in place of the App ID. */
+  readonly clientId?: string;
+}
+
+const AppResponse = Schema.Struct({
+  id: Schema.Number,
+  slug: Schema.String,
+  name: Schema.String,
+  client_id: optional(Schema.String),
+});
+
+const INSTALLATIONS_PER_PAGE = 100;
+
+/**
+ * The REST API root requests go to; provide a GitHub Enterprise Server's
+ * `/api/v3` root with `Effect.provideService`.
+ */
+export class GitHubApiBaseUrl extends Context.Reference<GitHubApiBaseUrl>()(
+  "GitHubApiBaseUrl",
+  { defaultValue: (): string => GITHUB_API_BASE_URL }
+) {}
+
+const apiUrl = (path: string): Effect.Effect<string> =>
+  Effect.map(GitHubApiBaseUrl, (baseUrl) => baseUrl + path);
+
+const appRequest = (
+  request: HttpClientRequest.HttpClientRequest,
+  jwt: string
+): HttpClientRequest.HttpClientRequest =>
+  request.pipe(
+    HttpClientRequest.setHeader("authorization", `Bearer ${jwt}`),
+    HttpClientRequest.setHeader("accept", "application/vnd.github+json")
+  );
+
+/** How GitHub API calls retry transient failures. */
+export interface RetryPolicy {
+  /** Attempts after the first; 0 disables retrying. */
+  readonly maxRetries: number;
+  /** Backoff before the first retry, doubling on every further one. */
+  readonly initialDelayMs: number;
+  readonly maxDelayMs: number;
+  /** Wait out a rate limit that lifts within this long; fail on longer ones. */
+  readonly maxRateLimitWaitMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 10 * 1000,
+  maxRateLimitWaitMs: 60 * 1000,
+};
 
+/** Overrides the retry policy with `Effect.provideService`. */
+export class GitHubRetryPolicy extends Context.Reference<GitHubRetryPolicy>()(
+  "GitHubRetryPolicy",
+  { defaultValue: (): RetryPolicy => DEFAULT_RETRY_POLICY }
+) {}
+
+// GitHub asks clients to wait at least a minute after a secondary rate
+// limit that comes without a Retry-After header.
+const SECONDARY_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+const headerNumber = (value: string | undefined) => {
+  const number = value === undefined ? NaN : Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Reads GitHub's rate-limit headers from a refused request. Returns undefined
+ * unless the response is a rate limit: a 429, or a 403 with `retry-after` or
+ * no remaining quota.
+ */
+export function parseRateLimit(
+  status: number,
+  headers: Readonly<Record<string, string | undefined>>,
+  now: number = Date.now()
+): RateLimitInfo | undefined {
+  if (status !== 403 && status !== 429) {
+    return undefined;
+  }
+
+  const limit = headerNumber(headers["x-ratelimit-limit"]);
+  const remaining = headerNumber(headers["x-ratelimit-remaining"]);
+  const retryAfter = headers["retry-after"];
+  const reset = headerNumber(headers["x-ratelimit-reset"]);
+
+  let retryAt: number | undefined;
+  if (retryAfter !== undefined) {
+    const seconds = headerNumber(retryAfter);
+    retryAt = seconds !== undefined ? now + seconds * 1000 : Date.parse(retryAfter);
+  } else if (remaining === 0 && reset !== undefined) {
+    retryAt = reset * 1000;
+  } else if (status === 429) {
+    retryAt = now + SECONDARY_RATE_LIMIT_WAIT_MS;
+  }
+
+  if (retryAt === undefined || Number.isNaN(retryAt)) {
+    return undefined;
+  }
+  return {
+    retryAt: new Date(retryAt),
+    ...(limit !== undefined ? { limit } : {}),
+    ...(remaining !== undefined ? { remaining } : {}),
+  };
+}
+
+/**
+ * How long to wait before retrying after `error`, or undefined to give up.
+ * Network failures and 5xx responses back off exponentially; rate limits wait
+ * until GitHub lifts them.
+ */
+export function retryDelayMs(
+  error: GitHubApiError,
+  retries: number,
+  policy: RetryPolicy,
+  now: number = Date.now()
+): number | undefined {
+  if (retries >= policy.maxRetries) {
+    return undefined;
+  }
+  if (error.rateLimit) {
+    const waitMs = Math.max(0, error.rateLimit.retryAt.getTime() - now);
+    return waitMs <= policy.maxRateLimitWaitMs ? waitMs : undefined;
+  }
+  if (error.status === 0 || error.status >= 500) {
+    return Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** retries);
+  }
+  return undefined;
+}
+
+/**
+ * Executes a GitHub API request once, mapping non-2xx responses and network
+ * failures to GitHubApiError, and proxy and certificate failures to their own
+ * errors.
+ */
+const executeOnce = (
+  client: HttpClient.HttpClient,
+  request: HttpClientRequest.HttpClientRequest
+): Effect.Effect<HttpClientResponse.HttpClientResponse, GitHubRequestError> =>
+  Effect.gen(function* () {
+    const transport = yield* HttpTransport;
+    const clock = yield* GitHubClock;
     const response = yield* client.execute(request).pipe(
-      Effect.catchAll(() =>
-        Effect.fail(
-          new GitHubApiError({ status: 0, message: "Request failed" })
-        )
+      Effect.mapError(
+        (err) =>
+          transportError(err.cause, transport) ??
+          new GitHubApiError({
+            status: 0,
+            message: `Request failed: ${err.message}`,
+          })
       )
     );
+    clock.observe(response.headers["date"]);
 
     if (response.status < 200 || response.status >= 300) {
       const body = yield* Effect.catchAll(response.json, () =>
@@ -37,9 +248,58 @@ export const requestInstallationToken = (
         typeof body === "object" && body !== null && "message" in body
           ? String((body as Record<string, unknown>).message)
           : `HTTP ${response.status}`;
+      const rateLimit = parseRateLimit(response.status, response.headers);
+
+      return yield* new GitHubApiError({
+        status: response.status,
+        message,
+        ...(rateLimit ? { rateLimit } : {}),
+      });
+    }
+
+    return response;
+  });
 
-      return yield* new GitHubApiError({ status: response.status, message });
+/** Executes a GitHub API request, retrying under GitHubRetryPolicy. */
+const execute = (
+  request: HttpClientRequest.HttpClientRequest
+): Effect.Effect<
+  HttpClientResponse.HttpClientResponse,
+  GitHubRequestError,
+  HttpClient.HttpClient
+> =>
+  Effect.gen(function* () {
+    const client = yield* HttpClient.HttpClient;
+    const policy = yield* GitHubRetryPolicy;
+
+    for (let retries = 0; ; retries += 1) {
+      const result = yield* Effect.either(executeOnce(client, request));
+      if (result._tag === "Right") {
+        return result.right;
+      }
+
+      // A proxy or certificate problem will not go away on its own
+      const delayMs =
+        result.left._tag === "GitHubApiError"
+          ? retryDelayMs(result.left, retries, policy)
+          : undefined;
+      if (delayMs === undefined) {
+        return yield* Effect.fail(result.left);
+      }
+      yield* Effect.sleep(Duration.millis(delayMs));
     }
+  });
+
+/**
+ * Executes a GitHub API request and decodes its JSON body with `schema`, so a
+ * body we cannot use fails here rather than wherever it is used.
+ */
+const executeJson = <A, I>(
+  schema: Schema.Schema<A, I>,
+  request: HttpClientRequest.HttpClientRequest
+): Effect.Effect<A, GitHubRequestError, HttpClient.HttpClient> =>
+  Effect.gen(function* () {
+    const response = yield* execute(request);
 
     const body = yield* Effect.catchAll(response.json, () =>
       Effect.fail(
@@ -50,10 +310,143 @@ export const requestInstallationToken = (
       )
     );
 
-    const parsed = body as { token: string; expires_at: string };
+    return yield* Schema.decodeUnknown(schema)(body).pipe(
+      Effect.mapError(
+        (error) =>
+          new GitHubApiError({
+            status: response.status,
+            message: `Unexpected response body: ${ParseResult.TreeFormatter.formatErrorSync(error)}`,
+          })
+      )
+    );
+  });
+
+export const requestInstallationToken = (
+  jwt: string,
+  installationId: string,
+  scope?: TokenScope
+): Effect.Effect<InstallationToken, GitHubRequestError, HttpClient.HttpClient> =>
+  Effect.gen(function* () {
+    const url = yield* apiUrl(
+      `/app/installations/${installationId}/access_tokens`
+    );
+    const baseRequest = appRequest(HttpClientRequest.post(url), jwt);
+
+    const requestBody = installationTokenRequestBody(scope);
+    const request = requestBody
+      ? HttpClientRequest.bodyUnsafeJson(baseRequest, requestBody)
+      : baseRequest;
+
+    const body = yield* executeJson(AccessTokenResponse, request);
+
+    return toInstallationToken(body);
+  });
+
+/**
+ * Revokes an installation token. The token authenticates its own revocation,
+ * so no JWT is needed.
+ */
+export const revokeInstallationToken = (
+  token: string
+): Effect.Effect<void, GitHubRequestError, HttpClient.HttpClient> =>
+  apiUrl("/installation/token").pipe(
+    Effect.flatMap((url) =>
+      execute(appRequest(HttpClientRequest.del(url), token))
+    ),
+    Effect.asVoid
+  );
+
+const toInstallation = (item: InstallationResponse): Installation => ({
+  id: String(item.id),
+  account: item.account?.login ?? "(unknown)",
+  accountType: item.account?.type ?? "(unknown)",
+  repositorySelection: item.repository_selection,
+});
+
+/** Looks up the installation of the app that covers `owner/repo`. */
+export const getRepositoryInstallation = (
+  jwt: string,
+  owner: string,
+  repo: string
+): Effect.Effect<Installation, GitHubRequestError, HttpClient.HttpClient> =>
+  Effect.gen(function* () {
+    const url = yield* apiUrl(
+      `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/installation`
+    );
+    const body = yield* executeJson(
+      InstallationResponse,
+      appRequest(HttpClientRequest.get(url), jwt)
+    );
+
+    return toInstallation(body);
+  });
+
+/** Fetches the app identified by `jwt`. */
+export const getApp = (
+  jwt: string
+): Effect.Effect<App, GitHubRequestError, HttpClient.HttpClient> =>
+  Effect.gen(function* () {
+    const url = yield* apiUrl("/app");
+    const body = yield* executeJson(
+      AppResponse,
+      appRequest(HttpClientRequest.get(url), jwt)
+    );
 
     return {
-      token: parsed.token,
-      expiresAt: new Date(parsed.expires_at),
-    } satisfies InstallationToken;
+      id: String(body.id),
+      slug: body.slug,
+      name: body.name,
+      ...(body.client_id !== undefined ? { clientId: body.client_id } : {}),
+    };
+  });
+
+/**
+ * Fetches one installation of the app identified by `jwt`. GitHub answers 404
+ * for installations of other apps.
+ */
+export const getInstallation = (
+  jwt: string,
+  installationId: string
+): Effect.Effect<Installation, GitHubRequestError, HttpClient.HttpClient> =>
+  Effect.gen(function* () {
+    const url = yield* apiUrl(
+      `/app/installations/${encodeURIComponent(installationId)}`
+    );
+    const body = yield* executeJson(
+      InstallationResponse,
+      appRequest(HttpClientRequest.get(url), jwt)
+    );
+
+    return toInstallation(body);
+  });
+
+/** Lists every installation of the app identified by `jwt`. */
+export const listInstallations = (
+  jwt: string
+): Effect.Effect<ReadonlyArray<Installation>, GitHubRequestError, HttpClient.HttpClient> =>
+  Effect.gen(function* () {
+    const url = yield* apiUrl("/app/installations");
+    const installations: Installation[] = [];
+
+    for (let page = 1; ; page += 1) {
+      const items = yield* executeJson(
+        Schema.Array(InstallationResponse),
+        appRequest(
+          HttpClientRequest.get(url).pipe(
+            HttpClientRequest.setUrlParam(
+              "per_page",
+              String(INSTALLATIONS_PER_PAGE)
+            ),
+            HttpClientRequest.setUrlParam("page", String(page))
+          ),
+          jwt
+        )
+      );
+
+      installations.push(...items.map(toInstallation));
+
+      if (items.length < INSTALLATIONS_PER_PAGE) {
+        return installations;
+      }
+    }
   });
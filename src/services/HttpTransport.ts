@@ -0,0 +1,164 @@
+import { Context, Effect, Layer } from "effect";
+import { FetchHttpClient, type HttpClient } from "@effect/platform";
+import { readFileSync } from "fs";
+import { rootCertificates } from "tls";
+import { CaFileNotFound, ProxyError, TlsError } from "../errors.ts";
+
+/** How requests reach one GitHub API: directly or through a proxy. */
+export interface Transport {
+  /** Proxy URL, unless NO_PROXY exempts the API host. */
+  readonly proxy?: string;
+  /** Path of an extra CA bundle, trusted alongside the system roots. */
+  readonly caFile?: string;
+  /** Contents of `caFile`. */
+  readonly ca?: string;
+}
+
+/**
+ * The transport behind the current HttpClient, so request failures can be
+ * blamed on the proxy or the CA bundle. Provided by transportLayer.
+ */
+export class HttpTransport extends Context.Reference<HttpTransport>()(
+  "HttpTransport",
+  { defaultValue: (): Transport => ({}) }
+) {}
+
+const readEnv = (vars: NodeJS.ProcessEnv, name: string) =>
+  vars[name.toLowerCase()] || vars[name.toUpperCase()] || undefined;
+
+function defaultPort(protocol: string): string {
+  return protocol === "https:" ? "443" : "80";
+}
+
+// NO_PROXY entries are host names or domain suffixes (`.corp` or `corp`),
+// optionally with a port; `*` exempts everything.
+function bypassesProxy(url: URL, noProxy: string): boolean {
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const port = url.port || defaultPort(url.protocol);
+
+  return noProxy
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .some((entry) => {
+      if (entry === "*") return true;
+      const match = /^(.*?)(?::(\d+))?$/.exec(entry.toLowerCase())!;
+      const pattern = match[1]!.replace(/^\*?\./, "").replace(/^\[|\]$/g, "");
+      if (match[2] !== undefined && match[2] !== port) return false;
+      return host === pattern || host.endsWith(`.${pattern}`);
+    });
+}
+
+/**
+ * The proxy for `url` according to HTTPS_PROXY / HTTP_PROXY and NO_PROXY
+ * (either case), or undefined to connect directly.
+ */
+export function proxyForUrl(
+  url: string,
+  vars: NodeJS.ProcessEnv = process.env
+): string | undefined {
+  const target = new URL(url);
+  const proxy =
+    target.protocol === "https:"
+      ? (readEnv(vars, "HTTPS_PROXY") ?? readEnv(vars, "HTTP_PROXY"))
+      : readEnv(vars, "HTTP_PROXY");
+  if (proxy === undefined) {
+    return undefined;
+  }
+
+  const noProxy = readEnv(vars, "NO_PROXY");
+  return noProxy !== undefined && bypassesProxy(target, noProxy)
+    ? undefined
+    : proxy;
+}
+
+/** Resolves the transport for requests to `url`, reading `caFile` if given. */
+export const loadTransport = (
+  url: string,
+  caFile?: string,
+  vars: NodeJS.ProcessEnv = process.env
+): Effect.Effect<Transport, CaFileNotFound> =>
+  Effect.gen(function* () {
+    const proxy = proxyForUrl(url, vars);
+    const base = proxy !== undefined ? { proxy } : {};
+    if (caFile === undefined) {
+      return base;
+    }
+
+    const ca = yield* Effect.try({
+      try: () => readFileSync(caFile, "utf8"),
+      catch: () => new CaFileNotFound({ path: caFile }),
+    });
+    return { ...base, caFile, ca };
+  });
+
+/** Bun fetch options that apply `transport`. */
+export function fetchOptions(transport: Transport): RequestInit {
+  return {
+    ...(transport.proxy !== undefined ? { proxy: transport.proxy } : {}),
+    ...(transport.ca !== undefined
+      ? { tls: { ca: [...rootCertificates, transport.ca] } }
+      : {}),
+  } as RequestInit;
+}
+
+/** An HttpClient that sends every request through `transport`. */
+export function transportLayer(
+  transport: Transport
+): Layer.Layer<HttpClient.HttpClient> {
+  return Layer.mergeAll(
+    FetchHttpClient.layer,
+    Layer.succeed(FetchHttpClient.RequestInit, fetchOptions(transport)),
+    Layer.succeed(HttpTransport, transport)
+  );
+}
+
+/** Strips credentials from a proxy URL so it can be shown. */
+export function redactProxy(proxy: string): string {
+  try {
+    const url = new URL(proxy);
+    url.username = "";
+    url.password = "";
+    return url.toString().replace(/\/$/, "");
+  } catch {
+    return "(invalid proxy URL)";
+  }
+}
+
+const TLS_ERROR_CODE =
+  /CERT|SELF_SIGNED|ISSUER|LEAF_SIGNATURE|^ERR_TLS_|^ERR_SSL_|HOSTNAME_MISMATCH/;
+
+// Failures to reach the proxy at all. Resets and timeouts can happen past
+// the proxy too, so they stay ordinary (retried) network errors.
+const PROXY_CONNECT_ERROR_CODE =
+  /^(ERR_PROXY_TUNNEL|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|EHOSTUNREACH|ENETUNREACH|ConnectionRefused|FailedToOpenSocket|UnableToConnect)$/;
+
+/**
+ * Explains a fetch failure as a proxy or certificate problem, or returns
+ * undefined for other network errors. With a proxy configured, every
+ * connection goes to the proxy, so failing to connect is its fault.
+ */
+export function transportError(
+  cause: unknown,
+  transport: Transport
+): ProxyError | TlsError | undefined {
+  if (typeof cause !== "object" || cause === null) {
+    return undefined;
+  }
+  const code = "code" in cause ? String(cause.code) : "";
+  const message = cause instanceof Error ? cause.message : String(cause);
+
+  if (TLS_ERROR_CODE.test(code)) {
+    return new TlsError({
+      code,
+      message,
+      ...(transport.caFile !== undefined ? { caFile: transport.caFile } : {}),
+    });
+  }
+
+  if (transport.proxy !== undefined) {
+    if (PROXY_CONNECT_ERROR_CODE.test(code)) {
+      return new ProxyError({ proxy: redactProxy(transport.proxy), message });
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,67 @@
+import { dlopen, FFIType, ptr } from "bun:ffi";
+import type { Socket } from "net";
+
+const SOL_SOCKET = 1;
+const SO_PEERCRED = 17;
+
+type PeerUidLookup = (fd: number) => number | undefined;
+
+// Node's net API does not expose peer credentials, so ask libc directly:
+// getsockopt(SO_PEERCRED) on Linux, getpeereid on macOS.
+function loadLookup(): PeerUidLookup | undefined {
+  try {
+    if (process.platform === "linux") {
+      const { symbols } = dlopen("libc.so.6", {
+        getsockopt: {
+          args: [FFIType.i32, FFIType.i32, FFIType.i32, FFIType.ptr, FFIType.ptr],
+          returns: FFIType.i32,
+        },
+      });
+      return (fd) => {
+        // struct ucred { pid_t pid; uid_t uid; gid_t gid; }
+        const ucred = new Int32Array(3);
+        const length = new Uint32Array([ucred.byteLength]);
+        return symbols.getsockopt(fd, SOL_SOCKET, SO_PEERCRED, ptr(ucred), ptr(length)) === 0
+          ? ucred[1]
+          : undefined;
+      };
+    }
+
+    if (process.platform === "darwin") {
+      const { symbols } = dlopen("/usr/lib/libSystem.B.dylib", {
+        getpeereid: {
+          args: [FFIType.i32, FFIType.ptr, FFIType.ptr],
+          returns: FFIType.i32,
+        },
+      });
+      return (fd) => {
+        const uid = new Uint32Array(1);
+        const gid = new Uint32Array(1);
+        return symbols.getpeereid(fd, ptr(uid), ptr(gid)) === 0
+          ? uid[0]
+          : undefined;
+      };
+    }
+  } catch {
+    // e.g. a libc under another name; callers fall back to the session secret
+  }
+  return undefined;
+}
+
+let lookup: PeerUidLookup | undefined | null = null;
+
+/**
+ * Returns the UID of the process at the other end of a Unix socket, or
+ * undefined where the platform or runtime cannot tell.
+ */
+export function getPeerUid(socket: Socket): number | undefined {
+  const fd = (socket as unknown as { _handle?: { fd?: unknown } })._handle?.fd;
+  if (typeof fd !== "number" || fd < 0) {
+    return undefined;
+  }
+
+  if (lookup === null) {
+    lookup = loadLookup();
+  }
+  return lookup?.(fd);
+}
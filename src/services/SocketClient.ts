@@ -1,102 +1,232 @@
 import { Effect } from "effect";
 import { connect, type Socket } from "net";
-import { existsSync } from "fs";
+import { existsSync, readFileSync } from "fs";
+import { randomUUID } from "crypto";
 import { DaemonNotRunning, SocketError } from "../errors.ts";
+import type { InstallationToken, TokenScope } from "./TokenService.ts";
+import type { Installation } from "./GitHubApiClient.ts";
+import {
+  decodeResponse,
+  PROTOCOL_VERSION,
+  type Action,
+  type DaemonStatusReport,
+  type RemoteError,
+  type RequestOf,
+} from "./SocketProtocol.ts";
+
+export interface TokenRequest {
+  readonly profile?: string;
+  readonly scope?: TokenScope;
+  readonly minRemainingMs?: number;
+  readonly installationId?: string;
+}
+
+export interface InstallationRequest {
+  readonly profile?: string;
+  readonly owner: string;
+  readonly repo: string;
+}
+
+/** Every way a daemon request can fail, including errors the daemon reports. */
+export type DaemonRequestError = DaemonNotRunning | SocketError | RemoteError;
 
 export interface SocketClient {
-  readonly requestToken: () => Effect.Effect<
-    { token: string; expiresAt: Date },
-    DaemonNotRunning | SocketError
+  readonly requestToken: (
+    request?: TokenRequest
+  ) => Effect.Effect<InstallationToken, DaemonRequestError>;
+  readonly resolveInstallation: (
+    request: InstallationRequest
+  ) => Effect.Effect<Installation, DaemonRequestError>;
+  /** Revokes the profile's issued tokens; succeeds with how many. */
+  readonly revokeTokens: (
+    profile?: string
+  ) => Effect.Effect<number, DaemonRequestError>;
+  readonly addProfile: (
+    profile: string,
+    password: string
+  ) => Effect.Effect<void, DaemonRequestError>;
+  /** Wipes decrypted keys and cached tokens; the daemon keeps running. */
+  readonly lock: () => Effect.Effect<void, DaemonRequestError>;
+  /** Decrypts `profile` (default: the daemon's own) in the running daemon. */
+  readonly unlock: (
+    password: string,
+    profile?: string
+  ) => Effect.Effect<void, DaemonRequestError>;
+  readonly listProfiles: () => Effect.Effect<
+    ReadonlyArray<string>,
+    DaemonRequestError
   >;
+  /** Daemon metadata for `daemon status`; never includes a token. */
+  readonly status: () => Effect.Effect<DaemonStatusReport, DaemonRequestError>;
+  /**
+   * Succeeds on any reply, so a daemon speaking another protocol version is
+   * still found (and can be stopped).
+   */
   readonly ping: () => Effect.Effect<void, DaemonNotRunning | SocketError>;
 }
 
-function sendRequest(
+/**
+ * Sends each message on one connection, waiting for its response line before
+ * sending the next, and succeeds with the responses in order.
+ */
+function exchange(
   socketPath: string,
-  message: string
-): Effect.Effect<string, DaemonNotRunning | SocketError> {
-  return Effect.async<string, DaemonNotRunning | SocketError>((resume) => {
-    if (!existsSync(socketPath)) {
-      resume(Effect.fail(new DaemonNotRunning()));
-      return;
-    }
+  messages: ReadonlyArray<string>
+): Effect.Effect<ReadonlyArray<string>, DaemonNotRunning | SocketError> {
+  return Effect.async<ReadonlyArray<string>, DaemonNotRunning | SocketError>(
+    (resume) => {
+      if (!existsSync(socketPath)) {
+        resume(Effect.fail(new DaemonNotRunning()));
+        return;
+      }
+
+      let buffer = "";
+      let done = false;
+      const responses: string[] = [];
+      let socket: Socket;
+
+      try {
+        socket = connect(socketPath);
+      } catch {
+        resume(Effect.fail(new DaemonNotRunning()));
+        return;
+      }
+
+      const finish = (
+        result: Effect.Effect<ReadonlyArray<string>, DaemonNotRunning | SocketError>
+      ) => {
+        if (done) return;
+        done = true;
+        socket.destroy();
+        resume(result);
+      };
+
+      socket.on("connect", () => {
+        socket.write(messages[0] + "\n");
+      });
 
-    let buffer = "";
-    let socket: Socket;
+      socket.on("data", (chunk) => {
+        buffer += chunk.toString();
+        let newlineIndex = buffer.indexOf("\n");
+        while (newlineIndex !== -1 && !done) {
+          responses.push(buffer.slice(0, newlineIndex));
+          buffer = buffer.slice(newlineIndex + 1);
+          newlineIndex = buffer.indexOf("\n");
 
-    try {
-      socket = connect(socketPath);
-    } catch {
-      resume(Effect.fail(new DaemonNotRunning()));
-      return;
+          if (responses.length === messages.length) {
+            finish(Effect.succeed(responses));
+          } else {
+            socket.write(messages[responses.length] + "\n");
+          }
+        }
+      });
+
+      // The daemon closes the connection after refusing a handshake
+      socket.on("close", () => {
+        finish(
+          responses.length > 0
+            ? Effect.succeed(responses)
+            : Effect.fail(
+                new SocketError({ message: "Connection closed by daemon" })
+              )
+        );
+      });
+
+      socket.on("error", (err: NodeJS.ErrnoException) => {
+        if (responses.length > 0) {
+          // The daemon hung up mid-exchange; its last response says why
+          finish(Effect.succeed(responses));
+        } else if (err.code === "ECONNREFUSED" || err.code === "ENOENT") {
+          finish(Effect.fail(new DaemonNotRunning()));
+        } else {
+          finish(Effect.fail(new SocketError({ message: String(err) })));
+        }
+      });
     }
+  );
+}
 
-    socket.on("connect", () => {
-      socket.write(message + "\n");
-    });
+function readSecret(secretPath: string | undefined): string | undefined {
+  if (!secretPath) return undefined;
+  try {
+    return readFileSync(secretPath, "utf8").trim();
+  } catch {
+    // No daemon secret (or not ours); the daemon decides whether to serve us
+    return undefined;
+  }
+}
 
-    socket.on("data", (chunk) => {
-      buffer += chunk.toString();
-      const newlineIndex = buffer.indexOf("\n");
-      if (newlineIndex !== -1) {
-        const response = buffer.slice(0, newlineIndex);
-        socket.destroy();
-        resume(Effect.succeed(response));
+export interface SocketClientOptions {
+  /** The daemon's session secret file, presented in a `hello` handshake. */
+  readonly secretPath?: string;
+}
+
+export function makeSocketClient(
+  socketPath: string,
+  options: SocketClientOptions = {}
+): SocketClient {
+  const envelope = () => ({ v: PROTOCOL_VERSION, id: randomUUID() });
+
+  const call = <A extends Action>(body: RequestOf<A>) =>
+    Effect.gen(function* () {
+      const request = { ...envelope(), ...body };
+      const secret = readSecret(options.secretPath);
+      if (secret === undefined) {
+        const [raw] = yield* exchange(socketPath, [JSON.stringify(request)]);
+        return yield* decodeResponse<A>(raw!, request);
       }
-    });
 
-    socket.on("error", (err: NodeJS.ErrnoException) => {
-      if (err.code === "ECONNREFUSED" || err.code === "ENOENT") {
-        resume(Effect.fail(new DaemonNotRunning()));
-      } else {
-        resume(Effect.fail(new SocketError({ message: String(err) })));
+      const hello = { ...envelope(), action: "hello" as const, secret };
+      const [helloRaw, raw] = yield* exchange(socketPath, [
+        JSON.stringify(hello),
+        JSON.stringify(request),
+      ]);
+      yield* decodeResponse(helloRaw!, hello);
+      if (raw === undefined) {
+        return yield* new SocketError({ message: "Connection closed by daemon" });
       }
+      return yield* decodeResponse<A>(raw, request);
     });
-  });
-}
 
-export function makeSocketClient(socketPath: string): SocketClient {
   return {
-    requestToken: () =>
-      Effect.gen(function* () {
-        const raw = yield* sendRequest(
-          socketPath,
-          JSON.stringify({ action: "getToken" })
-        );
+    requestToken: (request = {}) =>
+      call({ action: "getToken", ...request }),
 
-        let parsed: { ok?: boolean; token?: string; expiresAt?: string; error?: string };
-        try {
-          parsed = JSON.parse(raw) as typeof parsed;
-        } catch {
-          return yield* Effect.fail(
-            new SocketError({ message: "Malformed response" })
-          );
-        }
+    resolveInstallation: (request) =>
+      Effect.map(
+        call({ action: "resolveInstallation", ...request }),
+        (result) => result.installation
+      ),
 
-        if (!parsed.ok) {
-          return yield* Effect.fail(
-            new SocketError({ message: parsed.error ?? "Server error" })
-          );
-        }
+    revokeTokens: (profile) =>
+      Effect.map(
+        call({ action: "revoke", ...(profile !== undefined ? { profile } : {}) }),
+        (result) => result.revoked
+      ),
 
-        if (!parsed.token || !parsed.expiresAt) {
-          return yield* Effect.fail(
-            new SocketError({ message: "Missing token or expiresAt in response" })
-          );
-        }
+    addProfile: (profile, password) =>
+      Effect.asVoid(call({ action: "addProfile", profile, password })),
 
-        return {
-          token: parsed.token,
-          expiresAt: new Date(parsed.expiresAt),
-        };
-      }),
+    lock: () => Effect.asVoid(call({ action: "lock" })),
+
+    unlock: (password, profile) =>
+      Effect.asVoid(
+        call({
+          action: "unlock",
+          password,
+          ...(profile !== undefined ? { profile } : {}),
+        })
+      ),
+
+    listProfiles: () =>
+      Effect.map(call({ action: "profiles" }), (result) => result.profiles),
+
+    status: () =>
+      Effect.map(call({ action: "status" }), (result) => result.status),
 
     ping: () =>
-      Effect.gen(function* () {
-        yield* sendRequest(
-          socketPath,
-          JSON.stringify({ action: "ping" })
-        );
-      }),
+      Effect.asVoid(
+        exchange(socketPath, [JSON.stringify({ ...envelope(), action: "ping" })])
+      ),
   };
 }
@@ -0,0 +1,458 @@
+import { Effect, Either, Option, ParseResult, Schema } from "effect";
+import {
+  CaFileNotFound,
+  ClockSkewError,
+  ConfigNotFound,
+  ConfigParseError,
+  DaemonAuthFailed,
+  DaemonError,
+  DaemonLocked,
+  DecryptError,
+  GitHubApiError,
+  InvalidPassword,
+  JwtGenerationError,
+  PemNotFound,
+  ProfileNotFound,
+  ProfileNotLoaded,
+  ProxyError,
+  SocketError,
+  TlsError,
+} from "../errors.ts";
+import type { TokenService } from "./TokenService.ts";
+
+/**
+ * Messages are single JSON lines. Every request carries `v` and an `id`, and
+ * every response echoes both. Bump the version for any incompatible change.
+ *
+ * A connection whose peer cannot be identified must send `hello` with the
+ * daemon's session secret before anything but `ping` is served.
+ */
+export const PROTOCOL_VERSION = 1;
+
+const optional = <S extends Schema.Schema.Any>(schema: S) =>
+  Schema.optionalWith(schema, { exact: true });
+
+export const TokenScopeSchema = Schema.Struct({
+  repositories: optional(Schema.Array(Schema.String)),
+  permissions: optional(
+    Schema.Record({ key: Schema.String, value: Schema.String })
+  ),
+});
+
+export const RequestBody = Schema.Union(
+  Schema.Struct({ action: Schema.Literal("ping") }),
+  Schema.Struct({ action: Schema.Literal("hello"), secret: Schema.String }),
+  Schema.Struct({ action: Schema.Literal("status") }),
+  Schema.Struct({ action: Schema.Literal("lock") }),
+  Schema.Struct({
+    action: Schema.Literal("unlock"),
+    profile: optional(Schema.String),
+    password: Schema.String,
+  }),
+  Schema.Struct({ action: Schema.Literal("profiles") }),
+  Schema.Struct({
+    action: Schema.Literal("addProfile"),
+    profile: Schema.String,
+    password: Schema.String,
+  }),
+  Schema.Struct({
+    action: Schema.Literal("getToken"),
+    profile: optional(Schema.String),
+    scope: optional(TokenScopeSchema),
+    minRemainingMs: optional(Schema.Number),
+    installationId: optional(Schema.String),
+  }),
+  Schema.Struct({
+    action: Schema.Literal("resolveInstallation"),
+    profile: optional(Schema.String),
+    owner: Schema.String,
+    repo: Schema.String,
+  }),
+  Schema.Struct({
+    action: Schema.Literal("revoke"),
+    profile: optional(Schema.String),
+  })
+);
+export type RequestBody = typeof RequestBody.Type;
+export type Action = RequestBody["action"];
+export type RequestOf<A extends Action> = Extract<
+  RequestBody,
+  { readonly action: A }
+>;
+
+export type Request = RequestBody & { readonly v: number; readonly id: string };
+
+const Envelope = Schema.Struct({ v: Schema.Number, id: Schema.String });
+
+const RefreshStateSchema = Schema.Struct({
+  status: Schema.Literal("ok", "retrying"),
+  lastRefreshAt: optional(Schema.String),
+  lastError: optional(Schema.String),
+  consecutiveFailures: Schema.Number,
+  nextCheckAt: optional(Schema.String),
+});
+
+/** Reported by the `status` action; never includes a token. */
+export const DaemonStatusReport = Schema.Struct({
+  pid: Schema.Number,
+  startedAt: Schema.String,
+  uptimeMs: Schema.Number,
+  locked: Schema.Boolean,
+  profiles: Schema.Array(
+    Schema.Struct({
+      profile: Schema.String,
+      appId: Schema.String,
+      installationId: Schema.String,
+      cachedTokens: Schema.Array(
+        Schema.Struct({
+          installationId: Schema.String,
+          expiresAt: Schema.String,
+          scope: optional(TokenScopeSchema),
+        })
+      ),
+    })
+  ),
+  /** Requests other than status queries. */
+  requests: Schema.Struct({ total: Schema.Number, failed: Schema.Number }),
+  lastError: optional(Schema.Struct({ message: Schema.String, at: Schema.String })),
+  refresh: optional(RefreshStateSchema),
+});
+export type DaemonStatusReport = typeof DaemonStatusReport.Type;
+
+const InstallationSchema = Schema.Struct({
+  id: Schema.String,
+  account: Schema.String,
+  accountType: Schema.String,
+  repositorySelection: Schema.String,
+});
+
+const Empty = Schema.Struct({});
+
+/** What a successful response carries for each action, beside `ok: true`. */
+export const ResponseResults = {
+  ping: Schema.Struct({ pong: Schema.Literal(true) }),
+  hello: Empty,
+  status: Schema.Struct({ status: DaemonStatusReport }),
+  lock: Empty,
+  unlock: Empty,
+  profiles: Schema.Struct({ profiles: Schema.Array(Schema.String) }),
+  addProfile: Empty,
+  getToken: Schema.Struct({
+    token: Schema.String,
+    expiresAt: Schema.Date,
+    permissions: optional(
+      Schema.Record({ key: Schema.String, value: Schema.String })
+    ),
+    repositories: optional(Schema.Array(Schema.String)),
+  }),
+  resolveInstallation: Schema.Struct({ installation: InstallationSchema }),
+  revoke: Schema.Struct({ revoked: Schema.Number }),
+} satisfies Record<Action, Schema.Schema.AnyNoContext>;
+export type ActionResult<A extends Action> =
+  (typeof ResponseResults)[A]["Type"];
+
+/** Errors that cross the socket with their tag and fields intact. */
+export const ErrorPayload = Schema.Union(
+  Schema.TaggedStruct("GitHubApiError", {
+    status: Schema.Number,
+    message: Schema.String,
+    rateLimit: optional(
+      Schema.Struct({
+        retryAt: Schema.Date,
+        limit: optional(Schema.Number),
+        remaining: optional(Schema.Number),
+      })
+    ),
+  }),
+  Schema.TaggedStruct("ClockSkewError", {
+    offsetMs: Schema.Number,
+    message: Schema.String,
+  }),
+  Schema.TaggedStruct("ProxyError", {
+    proxy: Schema.String,
+    message: Schema.String,
+  }),
+  Schema.TaggedStruct("TlsError", {
+    code: Schema.String,
+    message: Schema.String,
+    caFile: optional(Schema.String),
+  }),
+  Schema.TaggedStruct("CaFileNotFound", { path: Schema.String }),
+  Schema.TaggedStruct("JwtGenerationError", { message: Schema.String }),
+  Schema.TaggedStruct("DecryptError", { message: Schema.String }),
+  Schema.TaggedStruct("InvalidPassword", {}),
+  Schema.TaggedStruct("DaemonLocked", {}),
+  Schema.TaggedStruct("DaemonAuthFailed", { message: Schema.String }),
+  Schema.TaggedStruct("ProfileNotLoaded", { profile: Schema.String }),
+  Schema.TaggedStruct("ProfileNotFound", { profile: Schema.String }),
+  Schema.TaggedStruct("ConfigNotFound", { path: Schema.String }),
+  Schema.TaggedStruct("ConfigParseError", { message: Schema.String }),
+  Schema.TaggedStruct("PemNotFound", { path: Schema.String }),
+  Schema.TaggedStruct("DaemonError", { message: Schema.String })
+);
+export type ErrorPayload = typeof ErrorPayload.Type;
+
+export type RemoteError =
+  | GitHubApiError
+  | ClockSkewError
+  | ProxyError
+  | TlsError
+  | CaFileNotFound
+  | JwtGenerationError
+  | DecryptError
+  | InvalidPassword
+  | DaemonLocked
+  | DaemonAuthFailed
+  | ProfileNotLoaded
+  | ProfileNotFound
+  | ConfigNotFound
+  | ConfigParseError
+  | PemNotFound
+  | DaemonError;
+
+/**
+ * Encodes a failure for the wire. Errors the protocol does not know become a
+ * DaemonError carrying their message.
+ */
+export function toErrorPayload(error: unknown): ErrorPayload {
+  return Option.getOrElse(
+    Schema.validateOption(ErrorPayload)(error),
+    () => ({
+      _tag: "DaemonError" as const,
+      message: error instanceof Error ? error.message : String(error),
+    })
+  );
+}
+
+/** Rebuilds the error a daemon reported. */
+export function fromErrorPayload(payload: ErrorPayload): RemoteError {
+  switch (payload._tag) {
+    case "GitHubApiError":
+      return new GitHubApiError({
+        status: payload.status,
+        message: payload.message,
+        ...(payload.rateLimit ? { rateLimit: payload.rateLimit } : {}),
+      });
+    case "ClockSkewError":
+      return new ClockSkewError({
+        offsetMs: payload.offsetMs,
+        message: payload.message,
+      });
+    case "ProxyError":
+      return new ProxyError({ proxy: payload.proxy, message: payload.message });
+    case "TlsError":
+      return new TlsError({
+        code: payload.code,
+        message: payload.message,
+        ...(payload.caFile !== undefined ? { caFile: payload.caFile } : {}),
+      });
+    case "CaFileNotFound":
+      return new CaFileNotFound({ path: payload.path });
+    case "JwtGenerationError":
+      return new JwtGenerationError({ message: payload.message });
+    case "DecryptError":
+      return new DecryptError({ message: payload.message });
+    case "InvalidPassword":
+      return new InvalidPassword();
+    case "DaemonLocked":
+      return new DaemonLocked();
+    case "DaemonAuthFailed":
+      return new DaemonAuthFailed({ message: payload.message });
+    case "ProfileNotLoaded":
+      return new ProfileNotLoaded({ profile: payload.profile });
+    case "ProfileNotFound":
+      return new ProfileNotFound({ profile: payload.profile });
+    case "ConfigNotFound":
+      return new ConfigNotFound({ path: payload.path });
+    case "ConfigParseError":
+      return new ConfigParseError({ message: payload.message });
+    case "PemNotFound":
+      return new PemNotFound({ path: payload.path });
+    case "DaemonError":
+      return new DaemonError({ message: payload.message });
+  }
+}
+
+function encodeFailure(id: string, error: ErrorPayload): string {
+  return JSON.stringify({
+    v: PROTOCOL_VERSION,
+    id,
+    ok: false,
+    error: Schema.encodeSync(ErrorPayload)(error),
+  });
+}
+
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw.trim()) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+export interface HandledMessage {
+  /** Undefined when the line was not a valid request. */
+  readonly request: Request | undefined;
+  readonly error: ErrorPayload | undefined;
+  readonly response: string;
+}
+
+/**
+ * Decodes one request line, runs `handler` and encodes the outcome as a
+ * response line. Never fails: malformed requests, version mismatches and
+ * handler failures (defects included) all become error responses.
+ */
+export function handleMessage(
+  raw: string,
+  handler: (request: Request) => Effect.Effect<ActionResult<Action>, unknown>
+): Effect.Effect<HandledMessage> {
+  return Effect.gen(function* () {
+    const json = parseJson(raw);
+    const envelope = Schema.decodeUnknownOption(Envelope)(json);
+    const id = Option.match(envelope, {
+      onNone: () => "",
+      onSome: ({ id }) => id,
+    });
+
+    const reject = (error: ErrorPayload): HandledMessage => ({
+      request: undefined,
+      error,
+      response: encodeFailure(id, error),
+    });
+
+    if (json === undefined) {
+      return reject({ _tag: "DaemonError", message: "Invalid JSON" });
+    }
+    if (Option.isNone(envelope) || envelope.value.v !== PROTOCOL_VERSION) {
+      return reject({
+        _tag: "DaemonError",
+        message: `Unsupported protocol version; the daemon speaks version ${PROTOCOL_VERSION}`,
+      });
+    }
+
+    const body = Schema.decodeUnknownEither(RequestBody)(json);
+    if (Either.isLeft(body)) {
+      const action =
+        typeof json === "object" && json !== null && "action" in json
+          ? String(json.action)
+          : "(none)";
+      return reject({
+        _tag: "DaemonError",
+        message: `Invalid request for action ${action}: ${ParseResult.TreeFormatter.formatErrorSync(body.left)}`,
+      });
+    }
+
+    const request: Request = { ...body.right, v: PROTOCOL_VERSION, id };
+    const result = yield* Effect.either(
+      Effect.catchAllDefect(handler(request), (defect) => Effect.fail(defect))
+    );
+
+    if (Either.isLeft(result)) {
+      const error = toErrorPayload(result.left);
+      return { request, error, response: encodeFailure(id, error) };
+    }
+
+    const encoded = Schema.encodeUnknownEither(
+      ResponseResults[request.action] as Schema.Schema.AnyNoContext
+    )(result.right);
+    if (Either.isLeft(encoded)) {
+      const error: ErrorPayload = {
+        _tag: "DaemonError",
+        message: `Invalid response for ${request.action}`,
+      };
+      return { request, error, response: encodeFailure(id, error) };
+    }
+
+    return {
+      request,
+      error: undefined,
+      response: JSON.stringify({
+        v: PROTOCOL_VERSION,
+        id,
+        ok: true,
+        ...(encoded.right as object),
+      }),
+    };
+  });
+}
+
+/**
+ * Decodes a response line for `request`. A daemon failure is rebuilt into
+ * its original error; anything unreadable is a SocketError.
+ */
+export function decodeResponse<A extends Action>(
+  raw: string,
+  request: { readonly id: string; readonly action: A }
+): Effect.Effect<ActionResult<A>, SocketError | RemoteError> {
+  return Effect.gen(function* () {
+    const json = parseJson(raw);
+    if (json === undefined) {
+      return yield* new SocketError({ message: "Malformed response" });
+    }
+
+    const envelope = Schema.decodeUnknownOption(
+      Schema.Struct({ v: Schema.Number, id: Schema.String, ok: Schema.Boolean })
+    )(json);
+    if (Option.isNone(envelope) || envelope.value.v !== PROTOCOL_VERSION) {
+      return yield* new SocketError({
+        message: `The daemon speaks a different protocol version (expected ${PROTOCOL_VERSION}). Restart it with 'apptoken daemon stop'.`,
+      });
+    }
+    if (envelope.value.id !== request.id) {
+      return yield* new SocketError({
+        message: "Response does not match the request",
+      });
+    }
+
+    if (!envelope.value.ok) {
+      const error = Schema.decodeUnknownOption(
+        Schema.Struct({ error: ErrorPayload })
+      )(json);
+      if (Option.isNone(error)) {
+        return yield* new SocketError({ message: "Malformed error response" });
+      }
+      return yield* Effect.fail(fromErrorPayload(error.value.error));
+    }
+
+    const schema = ResponseResults[request.action] as Schema.Schema<
+      ActionResult<A>,
+      unknown
+    >;
+    return yield* Schema.decodeUnknown(schema)(json).pipe(
+      Effect.mapError(
+        (error) =>
+          new SocketError({
+            message: `Malformed ${request.action} response: ${ParseResult.TreeFormatter.formatErrorSync(error)}`,
+          })
+      )
+    );
+  });
+}
+
+/**
+ * Handles the actions every socket server answers from a single token
+ * service: getToken, resolveInstallation and revoke.
+ */
+export function serveTokenRequest<E1, E2>(
+  tokenService: TokenService<E1, E2>,
+  request: RequestOf<"getToken" | "resolveInstallation" | "revoke">
+): Effect.Effect<ActionResult<Action>, E1 | E2> {
+  switch (request.action) {
+    case "getToken":
+      return tokenService.getInstallationToken(request.scope, {
+        minRemainingMs: request.minRemainingMs ?? 0,
+        ...(request.installationId !== undefined
+          ? { installationId: request.installationId }
+          : {}),
+      });
+    case "resolveInstallation":
+      return Effect.map(
+        tokenService.resolveInstallation(request.owner, request.repo),
+        (installation) => ({ installation })
+      );
+    case "revoke":
+      return Effect.map(tokenService.revokeTokens(), (revoked) => ({
+        revoked,
+      }));
+  }
+}
@@ -0,0 +1,107 @@
+import { Duration, Effect } from "effect";
+import { formatError } from "../format-error.ts";
+import type { TokenService } from "./TokenService.ts";
+
+export interface RefreshOptions {
+  /** Renew tokens this long before they expire. */
+  readonly leadMs: number;
+  /** Up to this much extra lead, chosen at random on every pass. */
+  readonly jitterMs: number;
+  /** How often to look for tokens that are due. */
+  readonly checkIntervalMs: number;
+  readonly initialBackoffMs: number;
+  readonly maxBackoffMs: number;
+  /** Source of randomness for jitter; defaults to Math.random. */
+  readonly random?: () => number;
+}
+
+export const DEFAULT_REFRESH_OPTIONS: RefreshOptions = {
+  leadMs: 10 * 60 * 1000,
+  jitterMs: 2 * 60 * 1000,
+  checkIntervalMs: 30 * 1000,
+  initialBackoffMs: 5 * 1000,
+  maxBackoffMs: 5 * 60 * 1000,
+};
+
+/** Timestamps are ISO strings so the state can be reported as JSON. */
+export interface RefreshState {
+  readonly status: "ok" | "retrying";
+  readonly lastRefreshAt?: string;
+  readonly lastError?: string;
+  readonly consecutiveFailures: number;
+  readonly nextCheckAt?: string;
+}
+
+export interface TokenRefresher {
+  /** Refreshes forever; fork it and interrupt the fiber to stop. */
+  readonly run: Effect.Effect<never>;
+  readonly state: () => RefreshState;
+}
+
+/**
+ * Renews cached tokens ahead of expiry so requests never wait on GitHub.
+ * Failures back off exponentially; the tokens already cached keep being
+ * served until they expire.
+ */
+export function makeTokenRefresher<E1, E2>(
+  services: () => Iterable<TokenService<E1, E2>>,
+  options: RefreshOptions = DEFAULT_REFRESH_OPTIONS
+): TokenRefresher {
+  const random = options.random ?? Math.random;
+  let state: RefreshState = { status: "ok", consecutiveFailures: 0 };
+
+  const refreshOnce = Effect.gen(function* () {
+    const withinMs = options.leadMs + random() * options.jitterMs;
+    let refreshed = 0;
+    let error: unknown;
+
+    for (const service of services()) {
+      const result = yield* Effect.either(service.refreshExpiring(withinMs));
+      if (result._tag === "Right") {
+        refreshed += result.right;
+      } else if (error === undefined) {
+        error = result.left;
+      }
+    }
+
+    const now = Date.now();
+    let delayMs: number;
+
+    if (error !== undefined) {
+      const failures = state.consecutiveFailures + 1;
+      delayMs = Math.min(
+        options.maxBackoffMs,
+        options.initialBackoffMs * 2 ** (failures - 1)
+      );
+      state = {
+        ...state,
+        status: "retrying",
+        lastError: formatError(error),
+        consecutiveFailures: failures,
+      };
+    } else {
+      delayMs = options.checkIntervalMs;
+      state = {
+        status: "ok",
+        consecutiveFailures: 0,
+        ...(refreshed > 0
+          ? { lastRefreshAt: new Date(now).toISOString() }
+          : state.lastRefreshAt
+            ? { lastRefreshAt: state.lastRefreshAt }
+            : {}),
+      };
+    }
+
+    state = { ...state, nextCheckAt: new Date(now + delayMs).toISOString() };
+    return delayMs;
+  });
+
+  return {
+    run: Effect.forever(
+      Effect.flatMap(refreshOnce, (delayMs) =>
+        Effect.sleep(Duration.millis(delayMs))
+      )
+    ),
+    state: () => state,
+  };
+}
@@ -1,11 +1,21 @@
-import { Effect } from "effect";
+import { Deferred, Effect, FiberId } from "effect";
+import type { Installation } from "./GitHubApiClient.ts";
 
 export interface InstallationToken {
   readonly token: string;
   readonly expiresAt: Date;
+  readonly permissions?: Readonly<Record<string, string>>;
+  readonly repositories?: ReadonlyArray<string>;
+}
+
+/** Narrows an installation token to some repositories and permissions. */
+export interface TokenScope {
+  readonly repositories?: ReadonlyArray<string>;
+  readonly permissions?: Readonly<Record<string, string>>;
 }
 
 const CACHE_BUFFER_MS = 5 * 60 * 1000; // 5 minutes
+const INSTALLATION_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
 
 export interface TokenServiceDeps<E1, E2> {
   readonly pem: string;
@@ -17,42 +27,336 @@ export interface TokenServiceDeps<E1, E2> {
   ) => Effect.Effect<string, E1>;
   readonly requestInstallationToken: (
     jwt: string,
-    installationId: string
+    installationId: string,
+    scope?: TokenScope
   ) => Effect.Effect<InstallationToken, E2>;
+  /** Without it, every repository maps to the configured installation. */
+  readonly requestRepositoryInstallation?: (
+    jwt: string,
+    owner: string,
+    repo: string
+  ) => Effect.Effect<Installation, E2>;
+  /** Without it, revokeTokens only forgets the cached tokens. */
+  readonly revokeInstallationToken?: (token: string) => Effect.Effect<void, E2>;
+}
+
+export interface TokenOptions {
+  /** Refresh the cached token if it expires sooner than this. */
+  readonly minRemainingMs?: number;
+  /** Mint the token for this installation instead of the configured one. */
+  readonly installationId?: string;
+}
+
+/** What a token service holds, without the tokens themselves. */
+export interface TokenServiceInfo {
+  readonly appId: string;
+  readonly installationId: string;
+  readonly cachedTokens: ReadonlyArray<{
+    readonly installationId: string;
+    readonly expiresAt: Date;
+    readonly scope?: TokenScope;
+  }>;
+}
+
+/**
+ * Unexpired tokens handed over by a service that is about to be dropped, so
+ * they can still be revoked without its key.
+ */
+export interface IssuedTokens<E> {
+  /** Keyed by token value. */
+  readonly tokens: Map<string, InstallationToken>;
+  /** Absent when the service could only forget its tokens. */
+  readonly revoke?: (token: string) => Effect.Effect<void, E>;
 }
 
 export interface TokenService<E1, E2> {
-  readonly getInstallationToken: () => Effect.Effect<
-    InstallationToken,
-    E1 | E2
-  >;
+  /**
+   * Serves the cached token for the installation and scope, or mints one.
+   * Concurrent calls that need the same token share a single refresh.
+   */
+  readonly getInstallationToken: (
+    scope?: TokenScope,
+    options?: TokenOptions
+  ) => Effect.Effect<InstallationToken, E1 | E2>;
+  readonly resolveInstallation: (
+    owner: string,
+    repo: string
+  ) => Effect.Effect<Installation, E1 | E2>;
+  /**
+   * Revokes every unexpired token this service has issued and clears the
+   * cache. Succeeds with the number of tokens revoked; fails with the first
+   * error after attempting all of them, keeping the failures for a retry.
+   */
+  readonly revokeTokens: () => Effect.Effect<number, E2>;
+  /**
+   * Clears the cache and hands over the unexpired tokens issued so far,
+   * which this service then forgets. Call it before dropping the service.
+   */
+  readonly release: () => Effect.Effect<IssuedTokens<E2>>;
+  /**
+   * Renews every cached token that expires within `withinMs`, for background
+   * refresh. Succeeds with the number renewed. Every due token is tried even
+   * when one fails, and the first failure is reported; a token that failed
+   * stays cached and in use until it expires.
+   */
+  readonly refreshExpiring: (withinMs: number) => Effect.Effect<number, E1 | E2>;
+  readonly info: () => Effect.Effect<TokenServiceInfo>;
+}
+
+/**
+ * Canonical cache key for a scope. Tokens are only reused for an identical
+ * scope, so a narrow request never receives a broader cached token.
+ */
+export function scopeKey(scope?: TokenScope): string {
+  const repositories = [...(scope?.repositories ?? [])].sort();
+  const permissions = Object.entries(scope?.permissions ?? {}).sort(
+    ([a], [b]) => a.localeCompare(b)
+  );
+  return JSON.stringify({ repositories, permissions });
+}
+
+/** Drops expired tokens, which need no revoking. */
+export function forgetExpiredTokens(
+  tokens: Map<string, InstallationToken>
+): void {
+  const now = Date.now();
+  for (const [value, token] of tokens) {
+    if (token.expiresAt.getTime() <= now) {
+      tokens.delete(value);
+    }
+  }
+}
+
+/**
+ * Revokes the unexpired tokens in `issued` and removes those it revoked,
+ * with the same results as `TokenService.revokeTokens`.
+ */
+export function revokeIssuedTokens<E>(
+  issued: IssuedTokens<E>
+): Effect.Effect<number, E> {
+  return Effect.gen(function* () {
+    const { tokens, revoke } = issued;
+    forgetExpiredTokens(tokens);
+
+    if (!revoke) {
+      tokens.clear();
+      return 0;
+    }
+
+    let revoked = 0;
+    let firstError: E | undefined;
+    for (const value of [...tokens.keys()]) {
+      const result = yield* Effect.either(revoke(value));
+      if (result._tag === "Right") {
+        tokens.delete(value);
+        revoked += 1;
+      } else if (firstError === undefined) {
+        firstError = result.left;
+      }
+    }
+
+    if (firstError !== undefined) {
+      return yield* Effect.fail(firstError);
+    }
+    return revoked;
+  });
+}
+
+interface CacheEntry {
+  readonly token: InstallationToken;
+  readonly installationId: string;
+  readonly scope: TokenScope | undefined;
 }
 
 export function makeTokenService<E1, E2>(
   deps: TokenServiceDeps<E1, E2>
 ): TokenService<E1, E2> {
-  let cached: InstallationToken | undefined;
+  const cache = new Map<string, CacheEntry>();
+  // Refreshing replaces a cached token, but the old one stays valid until it
+  // expires, so revocation has to cover everything issued.
+  const issued = new Map<string, InstallationToken>();
+  const installations = new Map<
+    string,
+    { readonly installation: Installation; readonly cachedAt: number }
+  >();
 
-  const isCacheValid = (): boolean => {
-    if (cached === undefined) return false;
-    return cached.expiresAt.getTime() - Date.now() > CACHE_BUFFER_MS;
-  };
+  // Refreshes in progress, keyed like the cache. Concurrent callers wait on
+  // the same one, and share its failure rather than retrying it themselves.
+  const inFlight = new Map<
+    string,
+    Deferred.Deferred<InstallationToken, E1 | E2>
+  >();
+
+  const remainingMs = (token: InstallationToken) =>
+    token.expiresAt.getTime() - Date.now();
+
+  const issuedTokens = (tokens: Map<string, InstallationToken>) => ({
+    tokens,
+    ...(deps.revokeInstallationToken
+      ? { revoke: deps.revokeInstallationToken }
+      : {}),
+  });
+
+  // `jwt` lets a caller renewing several tokens sign once for all of them
+  const mint = (
+    installationId: string,
+    scope: TokenScope | undefined,
+    jwt?: Effect.Effect<string, E1>
+  ): Effect.Effect<InstallationToken, E1 | E2> =>
+    Effect.suspend(() => {
+      const key = `${installationId}:${scopeKey(scope)}`;
+      const pending = inFlight.get(key);
+      if (pending !== undefined) {
+        return Deferred.await(pending);
+      }
+
+      const deferred = Deferred.unsafeMake<InstallationToken, E1 | E2>(
+        FiberId.none
+      );
+      inFlight.set(key, deferred);
+
+      return Effect.gen(function* () {
+        const token = yield* deps.requestInstallationToken(
+          yield* jwt ?? deps.generateJwt(deps.pem, deps.appId),
+          installationId,
+          scope
+        );
+
+        cache.set(key, { token, installationId, scope });
+        // Keeps a long-running daemon from holding every token it has minted
+        forgetExpiredTokens(issued);
+        issued.set(token.token, token);
+        return token;
+      }).pipe(
+        Effect.onExit((exit) =>
+          Effect.sync(() => {
+            inFlight.delete(key);
+            Deferred.unsafeDone(deferred, exit);
+          })
+        )
+      );
+    });
 
   return {
-    getInstallationToken: () =>
+    getInstallationToken: (scope, options) =>
+      Effect.gen(function* () {
+        const installationId = options?.installationId ?? deps.installationId;
+        const minRemainingMs = options?.minRemainingMs ?? 0;
+        const cached = cache.get(`${installationId}:${scopeKey(scope)}`)?.token;
+        if (
+          cached !== undefined &&
+          remainingMs(cached) > Math.max(CACHE_BUFFER_MS, minRemainingMs)
+        ) {
+          return cached;
+        }
+
+        const refreshed = yield* Effect.either(
+          mint(installationId, scope)
+        );
+
+        if (refreshed._tag === "Right") {
+          return refreshed.right;
+        }
+
+        // A token inside the refresh buffer still works; keep serving it
+        // while GitHub is unreachable rather than failing the caller.
+        if (cached !== undefined && remainingMs(cached) > minRemainingMs) {
+          return cached;
+        }
+        return yield* Effect.fail(refreshed.left);
+      }),
+
+    resolveInstallation: (owner, repo) =>
       Effect.gen(function* () {
-        if (isCacheValid()) {
-          return cached!;
+        if (!deps.requestRepositoryInstallation) {
+          return {
+            id: deps.installationId,
+            account: owner,
+            accountType: "(unknown)",
+            repositorySelection: "(unknown)",
+          } satisfies Installation;
+        }
+
+        const key = `${owner}/${repo}`.toLowerCase();
+        const cached = installations.get(key);
+        if (
+          cached !== undefined &&
+          Date.now() - cached.cachedAt < INSTALLATION_CACHE_TTL_MS
+        ) {
+          return cached.installation;
         }
 
         const jwt = yield* deps.generateJwt(deps.pem, deps.appId);
-        const token = yield* deps.requestInstallationToken(
+        const installation = yield* deps.requestRepositoryInstallation(
           jwt,
-          deps.installationId
+          owner,
+          repo
         );
 
-        cached = token;
-        return token;
+        installations.set(key, { installation, cachedAt: Date.now() });
+        return installation;
       }),
+
+    revokeTokens: () =>
+      Effect.suspend(() => {
+        cache.clear();
+        return revokeIssuedTokens(issuedTokens(issued));
+      }),
+
+    release: () =>
+      Effect.sync(() => {
+        cache.clear();
+        forgetExpiredTokens(issued);
+        const tokens = new Map(issued);
+        issued.clear();
+        return issuedTokens(tokens);
+      }),
+
+    refreshExpiring: (withinMs) =>
+      Effect.gen(function* () {
+        // Expired entries are dropped rather than renewed; the next request
+        // for them mints afresh.
+        const due: CacheEntry[] = [];
+        for (const [key, entry] of cache) {
+          const remaining = remainingMs(entry.token);
+          if (remaining <= 0) {
+            cache.delete(key);
+          } else if (remaining <= withinMs) {
+            due.push(entry);
+          }
+        }
+        if (due.length === 0) {
+          return 0;
+        }
+
+        const jwt = yield* Effect.cached(
+          deps.generateJwt(deps.pem, deps.appId)
+        );
+        let firstError: E1 | E2 | undefined;
+        for (const entry of due) {
+          const result = yield* Effect.either(
+            mint(entry.installationId, entry.scope, jwt)
+          );
+          if (result._tag === "Left" && firstError === undefined) {
+            firstError = result.left;
+          }
+        }
+
+        if (firstError !== undefined) {
+          return yield* Effect.fail(firstError);
+        }
+        return due.length;
+      }),
+
+    info: () =>
+      Effect.sync(() => ({
+        appId: deps.appId,
+        installationId: deps.installationId,
+        cachedTokens: [...cache.values()].map((entry) => ({
+          installationId: entry.installationId,
+          expiresAt: entry.token.expiresAt,
+          ...(entry.scope ? { scope: entry.scope } : {}),
+        })),
+      })),
   };
 }
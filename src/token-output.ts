@@ -0,0 +1,47 @@
+import type { InstallationToken } from "./services/TokenService.ts";
+
+export type TokenFormat = "env" | "shell" | "dotenv";
+
+const TOKEN_ENV_NAMES = ["GITHUB_TOKEN", "GH_TOKEN"] as const;
+
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/** Renders a token for `apptoken token --format`. */
+export function formatToken(
+  token: InstallationToken,
+  format: TokenFormat
+): string {
+  const vars: Array<[string, string]> = [
+    ...TOKEN_ENV_NAMES.map((name): [string, string] => [name, token.token]),
+    ["APPTOKEN_EXPIRES_AT", token.expiresAt.toISOString()],
+  ];
+
+  switch (format) {
+    case "env":
+      return vars.map(([name, value]) => `${name}=${value}`).join("\n");
+    case "shell":
+      return vars
+        .map(([name, value]) => `export ${name}=${shellQuote(value)}`)
+        .join("\n");
+    case "dotenv":
+      return vars
+        .map(([name, value]) => `${name}=${JSON.stringify(value)}`)
+        .join("\n");
+  }
+}
+
+/** Renders a token for `apptoken token --json`. */
+export function tokenToJson(token: InstallationToken): string {
+  return JSON.stringify(
+    {
+      token: token.token,
+      expiresAt: token.expiresAt.toISOString(),
+      permissions: token.permissions ?? null,
+      repositories: token.repositories ?? null,
+    },
+    null,
+    2
+  );
+}
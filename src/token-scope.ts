@@ -0,0 +1,68 @@
+import type { TokenScope } from "./services/TokenService.ts";
+
+export interface ParseScopeResult {
+  scope?: TokenScope;
+  /** Owner shared by every `--repo` flag, if any were given. */
+  owner?: string;
+  error?: string;
+}
+
+const REPO_PATTERN = /^([A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)\/([A-Za-z0-9._-]+)$/;
+const PERMISSION_PATTERN = /^([a-z_]+)=(read|write|admin)$/;
+
+/**
+ * Turns repeated `--repo owner/name` and `--permission name=level` flags into
+ * a token scope. No flags means the installation's full access.
+ */
+export function parseTokenScope(
+  repos: ReadonlyArray<string>,
+  permissions: ReadonlyArray<string>
+): ParseScopeResult {
+  const repositories: string[] = [];
+  let owner: string | undefined;
+
+  for (const repo of repos) {
+    const match = REPO_PATTERN.exec(repo.trim());
+    if (!match) {
+      return { error: `Invalid repository '${repo}'. Use owner/name.` };
+    }
+
+    const [, repoOwner, name] = match;
+    if (owner !== undefined && owner.toLowerCase() !== repoOwner!.toLowerCase()) {
+      return {
+        error: "All repositories must belong to the same owner as the installation.",
+      };
+    }
+
+    owner = repoOwner;
+    if (!repositories.includes(name!)) {
+      repositories.push(name!);
+    }
+  }
+
+  const permissionMap: Record<string, string> = {};
+  for (const permission of permissions) {
+    const match = PERMISSION_PATTERN.exec(permission.trim());
+    if (!match) {
+      return {
+        error: `Invalid permission '${permission}'. Use name=read, name=write or name=admin.`,
+      };
+    }
+
+    permissionMap[match[1]!] = match[2]!;
+  }
+
+  if (repositories.length === 0 && Object.keys(permissionMap).length === 0) {
+    return {};
+  }
+
+  return {
+    ...(owner !== undefined ? { owner } : {}),
+    scope: {
+      ...(repositories.length > 0 ? { repositories } : {}),
+      ...(Object.keys(permissionMap).length > 0
+        ? { permissions: permissionMap }
+        : {}),
+    },
+  };
+}
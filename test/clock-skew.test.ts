@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test";
+import { Effect } from "effect";
+import {
+  GitHubClock,
+  isClockSkewRejection,
+  makeClockSkew,
+  retryOnClockSkew,
+} from "../src/services/ClockSkew.ts";
+import { ClockSkewError, GitHubApiError } from "../src/errors.ts";
+
+const EXP_TOO_FAR = new GitHubApiError({
+  status: 401,
+  message: "'Expiration time' claim ('exp') is too far in the future",
+});
+
+describe("makeClockSkew", () => {
+  test("measures GitHub's clock against the local one", () => {
+    const clock = makeClockSkew();
+    const receivedAt = Date.parse("2026-01-28T12:00:00Z");
+
+    clock.observe("Wed, 28 Jan 2026 12:05:00 GMT", receivedAt);
+    expect(clock.offsetMs()).toBe(5 * 60 * 1000 + 500);
+
+    clock.observe("Wed, 28 Jan 2026 11:59:00 GMT", receivedAt);
+    expect(clock.offsetMs()).toBe(-60 * 1000 + 500);
+  });
+
+  test("ignores missing and malformed Date headers", () => {
+    const clock = makeClockSkew();
+    clock.observe(undefined);
+    clock.observe("yesterday");
+    expect(clock.offsetMs()).toBe(0);
+  });
+});
+
+describe("isClockSkewRejection", () => {
+  test("matches 401s about iat or exp", () => {
+    expect(isClockSkewRejection(EXP_TOO_FAR)).toBe(true);
+    expect(
+      isClockSkewRejection(
+        new GitHubApiError({
+          status: 401,
+          message:
+            "'Issued at' claim ('iat') must be an Integer representing a time in the past",
+        })
+      )
+    ).toBe(true);
+    expect(
+      isClockSkewRejection(
+        new GitHubApiError({ status: 401, message: "Bad credentials" })
+      )
+    ).toBe(false);
+  });
+});
+
+describe("retryOnClockSkew", () => {
+  test("retries once after a clock rejection", async () => {
+    let retries = 0;
+    const result = await Effect.runPromise(
+      retryOnClockSkew(Effect.fail(EXP_TOO_FAR), () => {
+        retries += 1;
+        return Effect.succeed("token");
+      })
+    );
+
+    expect(result).toBe("token");
+    expect(retries).toBe(1);
+  });
+
+  test("does not retry other failures", async () => {
+    let retries = 0;
+    const forbidden = new GitHubApiError({ status: 403, message: "Forbidden" });
+    const result = await Effect.runPromise(
+      Effect.either(
+        retryOnClockSkew(Effect.fail(forbidden), () => {
+          retries += 1;
+          return Effect.succeed("token");
+        })
+      )
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left).toBe(forbidden);
+    }
+    expect(retries).toBe(0);
+  });
+
+  test("reports the offset when the retry is rejected too", async () => {
+    const clock = makeClockSkew();
+    clock.observe(new Date(Date.now() - 90 * 1000).toUTCString());
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        retryOnClockSkew(Effect.fail(EXP_TOO_FAR), () =>
+          Effect.fail(EXP_TOO_FAR)
+        ).pipe(Effect.provideService(GitHubClock, clock))
+      )
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left).toBeInstanceOf(ClockSkewError);
+      expect((result.left as ClockSkewError).offsetMs).toBeLessThan(-88 * 1000);
+    }
+  });
+});
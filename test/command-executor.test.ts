@@ -1,8 +1,15 @@
 import { describe, expect, test } from "bun:test";
 import { Effect } from "effect";
+import { spawnSync } from "child_process";
+import { fstatSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import {
   runGh,
   runGit,
+  runWithToken,
+  configureGitCredentialHelper,
+  getGitRemoteUrl,
   type CommandResult,
   CommandNotFound,
   CommandFailed,
@@ -84,6 +91,22 @@ describe("CommandExecutor", () => {
       expect(result.stdout.trim()).toBe(token);
     });
 
+    test("points gh at an Enterprise Server host", async () => {
+      const result = await Effect.runPromise(
+        runGh(
+          [
+            "-e",
+            `console.log(process.env.GH_HOST, process.env.GH_ENTERPRISE_TOKEN)`,
+          ],
+          "ghs_enterprise",
+          "bun",
+          "ghe.example.com"
+        )
+      );
+
+      expect(result.stdout.trim()).toBe("ghe.example.com ghs_enterprise");
+    });
+
     test("captures stderr output", async () => {
       const result = await Effect.runPromise(
         runGh(
@@ -117,6 +140,42 @@ describe("CommandExecutor", () => {
       expect(result.stdout.trim()).toBe("git@github.com:");
     });
 
+    test("scopes the credential helper to the host", async () => {
+      const result = await Effect.runPromise(
+        runGit(
+          ["config", "--show-origin", "--get-regexp", "^credential\\."],
+          "test-token",
+          "git",
+          "ghe.example.com"
+        )
+      );
+
+      const fromArgs = result.stdout
+        .split("\n")
+        .filter((line) => line.startsWith("command line:"))
+        .map((line) => line.slice("command line:".length).trim());
+
+      expect(fromArgs).toHaveLength(2);
+      expect(fromArgs[0]).toBe("credential.https://ghe.example.com.helper");
+      expect(fromArgs[1]).toStartWith(
+        "credential.https://ghe.example.com.helper !f() {"
+      );
+      expect(fromArgs[1]).toContain("$APPTOKEN_GIT_TOKEN");
+    });
+
+    test("rewrites ssh remotes of an Enterprise Server host", async () => {
+      const result = await Effect.runPromise(
+        runGit(
+          ["config", "--get", "url.https://ghe.example.com/.insteadOf"],
+          "test-token",
+          "git",
+          "ghe.example.com"
+        )
+      );
+
+      expect(result.stdout.trim()).toBe("git@ghe.example.com:");
+    });
+
     test("sets APPTOKEN_GIT_TOKEN in child environment", async () => {
       const token = "ghs_git_test_token_value";
       const result = await Effect.runPromise(
@@ -203,4 +262,147 @@ describe("CommandExecutor", () => {
       }
     });
   });
+
+  describe("configureGitCredentialHelper", () => {
+    test("replaces existing helpers for the host in the local config", async () => {
+      const repo = mkdtempSync(join(tmpdir(), "apptoken-git-"));
+      const cwd = process.cwd();
+      try {
+        spawnSync("git", ["init", "-q", repo]);
+        spawnSync("git", [
+          "-C",
+          repo,
+          "config",
+          "--local",
+          "credential.https://github.com.helper",
+          "store",
+        ]);
+
+        process.chdir(repo);
+        await Effect.runPromise(
+          configureGitCredentialHelper("!apptoken credential", {
+            scope: "local",
+            host: "github.com",
+          })
+        );
+
+        const helpers = spawnSync(
+          "git",
+          ["config", "--local", "--get-all", "credential.https://github.com.helper"],
+          { cwd: repo, encoding: "utf8" }
+        ).stdout;
+        expect(helpers.split("\n").filter(Boolean)).toEqual([
+          "!apptoken credential",
+        ]);
+      } finally {
+        process.chdir(cwd);
+        rmSync(repo, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("getGitRemoteUrl", () => {
+    test("reads the remote URL of a repository", async () => {
+      const repo = mkdtempSync(join(tmpdir(), "apptoken-git-"));
+      try {
+        spawnSync("git", ["init", "-q", repo]);
+        spawnSync("git", [
+          "-C",
+          repo,
+          "remote",
+          "add",
+          "origin",
+          "git@github.com:acme/api.git",
+        ]);
+
+        const url = await Effect.runPromise(getGitRemoteUrl("origin", repo));
+        const missing = await Effect.runPromise(getGitRemoteUrl("upstream", repo));
+
+        expect(url).toBe("git@github.com:acme/api.git");
+        expect(missing).toBeUndefined();
+      } finally {
+        rmSync(repo, { recursive: true, force: true });
+      }
+    });
+
+    test("returns undefined when git is not installed", async () => {
+      const url = await Effect.runPromise(
+        getGitRemoteUrl("origin", undefined, "nonexistent-git-binary-xyz")
+      );
+      expect(url).toBeUndefined();
+    });
+  });
+
+  describe("runWithToken", () => {
+    const token = {
+      token: "ghs_exec_token",
+      expiresAt: new Date("2026-01-28T12:00:00Z"),
+    };
+
+    // The command shares this process's stdio, so it reports through a file
+    async function runAndRead(
+      script: string,
+      envNames?: readonly string[]
+    ): Promise<string> {
+      const dir = mkdtempSync(join(tmpdir(), "apptoken-exec-"));
+      try {
+        const out = join(dir, "out");
+        await Effect.runPromise(
+          runWithToken(
+            "bun",
+            ["-e", `require("fs").writeFileSync(${JSON.stringify(out)}, String(${script}))`],
+            token,
+            envNames
+          )
+        );
+        return readFileSync(out, "utf8");
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    }
+
+    test("injects the token into GITHUB_TOKEN and GH_TOKEN by default", async () => {
+      expect(
+        await runAndRead("[process.env.GITHUB_TOKEN, process.env.GH_TOKEN]")
+      ).toBe("ghs_exec_token,ghs_exec_token");
+    });
+
+    test("injects the token under custom variable names", async () => {
+      expect(
+        await runAndRead("process.env.TF_VAR_github_token", [
+          "TF_VAR_github_token",
+        ])
+      ).toBe("ghs_exec_token");
+    });
+
+    test("sets APPTOKEN_EXPIRES_AT", async () => {
+      expect(await runAndRead("process.env.APPTOKEN_EXPIRES_AT")).toBe(
+        "2026-01-28T12:00:00.000Z"
+      );
+    });
+
+    test("shares this process's stdin, stdout and stderr", async () => {
+      const identify = (fd: number) => {
+        const stat = fstatSync(fd);
+        return `${stat.dev}:${stat.ino}`;
+      };
+
+      expect(
+        await runAndRead(
+          `[0, 1, 2].map((fd) => { const s = require("fs").fstatSync(fd); return s.dev + ":" + s.ino; })`
+        )
+      ).toBe([0, 1, 2].map(identify).join(","));
+    });
+
+    test("returns the command's exit code in CommandFailed", async () => {
+      const result = await Effect.runPromise(
+        Effect.either(runWithToken("bun", ["-e", `process.exit(3)`], token))
+      );
+
+      expect(result._tag).toBe("Left");
+      if (result._tag === "Left" && result.left instanceof CommandFailed) {
+        expect(result.left.exitCode).toBe(3);
+      }
+    });
+  });
 });
@@ -3,15 +3,36 @@ import { Effect } from "effect";
 import {
   encryptPem,
   decryptPem,
+  isLegacyPem,
   saveConfig,
   loadConfig,
   saveEncryptedPem,
   loadEncryptedPem,
+  loadConfigFile,
+  loadDaemonConfig,
+  loadRetryConfig,
+  setDefaultProfile,
+  removeProfile,
+  getPemPath,
+  isValidProfileName,
   type AppConfig,
 } from "../src/services/ConfigService.ts";
 
-import { randomUUID } from "crypto";
-import { rmSync, mkdirSync } from "fs";
+import {
+  randomUUID,
+  randomBytes,
+  createCipheriv,
+  pbkdf2Sync,
+} from "crypto";
+import {
+  rmSync,
+  mkdirSync,
+  writeFileSync,
+  existsSync,
+  statSync,
+  chmodSync,
+  readdirSync,
+} from "fs";
 import { join } from "path";
 import { tmpdir } from "os";
 
@@ -75,8 +96,77 @@ describe("PEM encryption", () => {
 
     expect(enc1).not.toBe(enc2);
   });
+
+  test("writes a versioned envelope naming the KDF and cipher", async () => {
+    const encrypted = await Effect.runPromise(encryptPem(TEST_PEM, "pw"));
+    const envelope = JSON.parse(encrypted);
+
+    expect(envelope.version).toBe(2);
+    expect(envelope.kdf).toMatchObject({ name: "scrypt", N: 131072, r: 8, p: 1 });
+    expect(envelope.cipher.name).toBe("aes-256-gcm");
+    expect(encrypted).not.toContain("PRIVATE KEY");
+    expect(isLegacyPem(encrypted)).toBe(false);
+  });
+
+  test("decrypts files in the legacy PBKDF2 format", async () => {
+    const legacy = encryptLegacy(TEST_PEM, "old-password");
+    expect(isLegacyPem(legacy)).toBe(true);
+
+    const decrypted = await Effect.runPromise(decryptPem(legacy, "old-password"));
+    expect(decrypted).toBe(TEST_PEM);
+
+    const wrong = await Effect.runPromiseExit(decryptPem(legacy, "nope"));
+    expect(JSON.stringify(wrong)).toContain("InvalidPassword");
+  });
+
+  test("rejects an envelope from a newer format version", async () => {
+    const encrypted = await Effect.runPromise(encryptPem(TEST_PEM, "pw"));
+    const future = JSON.stringify({ ...JSON.parse(encrypted), version: 3 });
+
+    const result = await Effect.runPromise(
+      Effect.either(decryptPem(future, "pw"))
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left._tag).toBe("DecryptError");
+      expect(result.left).toMatchObject({
+        message: expect.stringContaining("format version 3"),
+      });
+    }
+  });
+
+  test("rejects an envelope with an unknown KDF", async () => {
+    const encrypted = await Effect.runPromise(encryptPem(TEST_PEM, "pw"));
+    const envelope = JSON.parse(encrypted);
+    const unknown = JSON.stringify({
+      ...envelope,
+      kdf: { ...envelope.kdf, name: "bcrypt" },
+    });
+
+    const result = await Effect.runPromise(
+      Effect.either(decryptPem(unknown, "pw"))
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left._tag).toBe("DecryptError");
+    }
+  });
 });
 
+// The pre-envelope format: base64 of salt|iv|tag|ciphertext, PBKDF2 key.
+function encryptLegacy(pem: string, password: string): string {
+  const salt = randomBytes(32);
+  const iv = randomBytes(16);
+  const key = pbkdf2Sync(password, salt, 100_000, 32, "sha256");
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const encrypted = Buffer.concat([cipher.update(pem, "utf8"), cipher.final()]);
+  return Buffer.concat([salt, iv, cipher.getAuthTag(), encrypted]).toString(
+    "base64"
+  );
+}
+
 describe("Config persistence", () => {
   test("save then load config returns same data", async () => {
     const tempDir = makeTempDir();
@@ -133,6 +223,29 @@ describe("Config persistence", () => {
     }
   });
 
+  test("replacing the encrypted PEM leaves no temp file and keeps its mode", async () => {
+    const tempDir = makeTempDir();
+    try {
+      const pemPath = getPemPath(tempDir);
+      await Effect.runPromise(saveEncryptedPem("old-blob", tempDir));
+      expect(statSync(pemPath).mode & 0o777).toBe(0o600);
+
+      chmodSync(pemPath, 0o640);
+      const loaded = await Effect.runPromise(
+        Effect.gen(function* () {
+          yield* saveEncryptedPem("new-blob", tempDir);
+          return yield* loadEncryptedPem(tempDir);
+        })
+      );
+
+      expect(loaded).toBe("new-blob");
+      expect(statSync(pemPath).mode & 0o777).toBe(0o640);
+      expect(readdirSync(tempDir)).toEqual(["pem.enc"]);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
   test("load missing PEM returns PemNotFound", async () => {
     const tempDir = makeTempDir();
     try {
@@ -149,3 +262,285 @@ describe("Config persistence", () => {
     }
   });
 });
+
+describe("Profiles", () => {
+  const ciConfig: AppConfig = {
+    appId: "111",
+    installationId: "222",
+    createdAt: "2026-01-01T00:00:00.000Z",
+  };
+  const releaseConfig: AppConfig = {
+    appId: "333",
+    installationId: "444",
+    createdAt: "2026-01-02T00:00:00.000Z",
+  };
+
+  test("reads a legacy single-app config as the default profile", async () => {
+    const tempDir = makeTempDir();
+    try {
+      writeFileSync(join(tempDir, "config.json"), JSON.stringify(ciConfig));
+
+      const file = await Effect.runPromise(loadConfigFile(tempDir));
+
+      expect(file.defaultProfile).toBe("default");
+      expect(file.profiles["default"]?.appId).toBe("111");
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("first saved profile becomes the default", async () => {
+    const tempDir = makeTempDir();
+    try {
+      const loaded = await Effect.runPromise(
+        Effect.gen(function* () {
+          yield* saveConfig(ciConfig, tempDir, "ci");
+          yield* saveConfig(releaseConfig, tempDir, "release");
+          return yield* loadConfig(tempDir);
+        })
+      );
+
+      expect(loaded.appId).toBe("111");
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("loads a named profile", async () => {
+    const tempDir = makeTempDir();
+    try {
+      const loaded = await Effect.runPromise(
+        Effect.gen(function* () {
+          yield* saveConfig(ciConfig, tempDir, "ci");
+          yield* saveConfig(releaseConfig, tempDir, "release");
+          return yield* loadConfig(tempDir, "release");
+        })
+      );
+
+      expect(loaded.appId).toBe("333");
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("loading an unknown profile returns ProfileNotFound", async () => {
+    const tempDir = makeTempDir();
+    try {
+      const result = await Effect.runPromiseExit(
+        Effect.gen(function* () {
+          yield* saveConfig(ciConfig, tempDir, "ci");
+          return yield* loadConfig(tempDir, "missing");
+        })
+      );
+
+      expect(result._tag).toBe("Failure");
+      if (result._tag === "Failure") {
+        expect(JSON.stringify(result.cause)).toContain("ProfileNotFound");
+      }
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("inherited object keys are not profiles", async () => {
+    const tempDir = makeTempDir();
+    try {
+      const result = await Effect.runPromiseExit(
+        Effect.gen(function* () {
+          yield* saveConfig(ciConfig, tempDir, "ci");
+          return yield* loadConfig(tempDir, "constructor");
+        })
+      );
+
+      expect(result._tag).toBe("Failure");
+      if (result._tag === "Failure") {
+        expect(JSON.stringify(result.cause)).toContain("ProfileNotFound");
+      }
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("rejects a config whose profile entry is malformed", async () => {
+    const tempDir = makeTempDir();
+    try {
+      writeFileSync(
+        join(tempDir, "config.json"),
+        JSON.stringify({ defaultProfile: "ci", profiles: { ci: { appId: 111 } } })
+      );
+
+      const result = await Effect.runPromiseExit(loadConfigFile(tempDir));
+
+      expect(result._tag).toBe("Failure");
+      if (result._tag === "Failure") {
+        expect(JSON.stringify(result.cause)).toContain("ConfigParseError");
+        expect(JSON.stringify(result.cause)).toContain("installationId");
+      }
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("keeps config keys it does not know about", async () => {
+    const tempDir = makeTempDir();
+    try {
+      writeFileSync(
+        join(tempDir, "config.json"),
+        JSON.stringify({
+          defaultProfile: "ci",
+          profiles: { ci: ciConfig },
+          future: { enabled: true },
+        })
+      );
+
+      const file = await Effect.runPromise(loadConfigFile(tempDir));
+
+      expect(file).toMatchObject({ future: { enabled: true } });
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("setDefaultProfile switches the default profile", async () => {
+    const tempDir = makeTempDir();
+    try {
+      const loaded = await Effect.runPromise(
+        Effect.gen(function* () {
+          yield* saveConfig(ciConfig, tempDir, "ci");
+          yield* saveConfig(releaseConfig, tempDir, "release");
+          yield* setDefaultProfile("release", tempDir);
+          return yield* loadConfig(tempDir);
+        })
+      );
+
+      expect(loaded.appId).toBe("333");
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("each profile has its own encrypted PEM", async () => {
+    const tempDir = makeTempDir();
+    try {
+      const [ci, release] = await Effect.runPromise(
+        Effect.gen(function* () {
+          yield* saveEncryptedPem("ci-blob", tempDir, "ci");
+          yield* saveEncryptedPem("release-blob", tempDir, "release");
+          return [
+            yield* loadEncryptedPem(tempDir, "ci"),
+            yield* loadEncryptedPem(tempDir, "release"),
+          ];
+        })
+      );
+
+      expect(ci).toBe("ci-blob");
+      expect(release).toBe("release-blob");
+      expect(getPemPath(tempDir, "default")).toBe(join(tempDir, "pem.enc"));
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("removeProfile deletes config entry and PEM, and moves the default", async () => {
+    const tempDir = makeTempDir();
+    try {
+      const file = await Effect.runPromise(
+        Effect.gen(function* () {
+          yield* saveConfig(ciConfig, tempDir, "ci");
+          yield* saveConfig(releaseConfig, tempDir, "release");
+          yield* saveEncryptedPem("ci-blob", tempDir, "ci");
+          yield* removeProfile("ci", tempDir);
+          return yield* loadConfigFile(tempDir);
+        })
+      );
+
+      expect(Object.keys(file.profiles)).toEqual(["release"]);
+      expect(file.defaultProfile).toBe("release");
+      expect(existsSync(getPemPath(tempDir, "ci"))).toBe(false);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("rejects profile names that could escape the config directory", () => {
+    expect(isValidProfileName("ci-bot")).toBe(true);
+    expect(isValidProfileName("release.v2")).toBe(true);
+    expect(isValidProfileName("../evil")).toBe(false);
+    expect(isValidProfileName("a/b")).toBe(false);
+    expect(isValidProfileName("")).toBe(false);
+  });
+});
+
+describe("Daemon settings", () => {
+  test("loadDaemonConfig reads the daemon section", async () => {
+    const tempDir = makeTempDir();
+    try {
+      writeFileSync(
+        join(tempDir, "config.json"),
+        JSON.stringify({
+          defaultProfile: "default",
+          profiles: {},
+          daemon: { revokeOnStop: true },
+        })
+      );
+
+      const settings = await Effect.runPromise(loadDaemonConfig(tempDir));
+      expect(settings).toEqual({ revokeOnStop: true });
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("loadDaemonConfig defaults to no settings without a config", async () => {
+    const tempDir = makeTempDir();
+    try {
+      const settings = await Effect.runPromise(loadDaemonConfig(tempDir));
+      expect(settings).toEqual({});
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("Retry settings", () => {
+  test("loadRetryConfig reads the retry section", async () => {
+    const tempDir = makeTempDir();
+    try {
+      writeFileSync(
+        join(tempDir, "config.json"),
+        JSON.stringify({
+          defaultProfile: "default",
+          profiles: {},
+          retry: { maxRetries: 5, maxRateLimitWait: "2m" },
+        })
+      );
+
+      const settings = await Effect.runPromise(loadRetryConfig(tempDir));
+      expect(settings).toEqual({ maxRetries: 5, maxRateLimitWait: "2m" });
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("rejects a negative retry count", async () => {
+    const tempDir = makeTempDir();
+    try {
+      writeFileSync(
+        join(tempDir, "config.json"),
+        JSON.stringify({
+          defaultProfile: "default",
+          profiles: {},
+          retry: { maxRetries: -1 },
+        })
+      );
+
+      const result = await Effect.runPromiseExit(loadRetryConfig(tempDir));
+      expect(result._tag).toBe("Failure");
+      if (result._tag === "Failure") {
+        expect(JSON.stringify(result.cause)).toContain("ConfigParseError");
+      }
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -16,9 +16,16 @@ import {
 } from "../src/services/DaemonService.ts";
 import {
   DaemonAlreadyRunning,
+  DaemonAuthFailed,
+  DaemonLocked,
   DaemonNotRunning,
+  ProfileNotLoaded,
+  SocketError,
 } from "../src/errors.ts";
 import { makeTokenService } from "../src/services/TokenService.ts";
+import { makeSocketClient } from "../src/services/SocketClient.ts";
+import { PROTOCOL_VERSION } from "../src/services/SocketProtocol.ts";
+import { DEFAULT_REFRESH_OPTIONS } from "../src/services/TokenRefresher.ts";
 
 const MOCK_TOKEN = "ghs_xxxxxxxxxxxxxxxxxxxx";
 const MOCK_EXPIRES = new Date(Date.now() + 60 * 60 * 1000);
@@ -200,6 +207,49 @@ describe("DaemonService", () => {
     });
   });
 
+  describe("concurrent requests", () => {
+    test("share one upstream token request", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      let upstreamCalls = 0;
+      const daemon = makeDaemonService({
+        socketPath: join(testDir, "apptoken.sock"),
+        pidPath: join(testDir, "apptoken.pid"),
+        tokenService: makeTokenService({
+          pem: "test-pem",
+          appId: "12345",
+          installationId: "67890",
+          generateJwt: () => Effect.succeed("mock-jwt"),
+          requestInstallationToken: () =>
+            Effect.sync(() => {
+              upstreamCalls++;
+            }).pipe(
+              Effect.zipRight(Effect.sleep("50 millis")),
+              Effect.as({ token: MOCK_TOKEN, expiresAt: MOCK_EXPIRES })
+            ),
+        }),
+      });
+
+      await Effect.runPromise(daemon.start());
+      try {
+        const client = makeSocketClient(join(testDir, "apptoken.sock"));
+        const tokens = await Promise.all(
+          Array.from({ length: 20 }, () =>
+            Effect.runPromise(client.requestToken())
+          )
+        );
+
+        expect(upstreamCalls).toBe(1);
+        expect(new Set(tokens.map((token) => token.token))).toEqual(
+          new Set([MOCK_TOKEN])
+        );
+      } finally {
+        await Effect.runPromise(daemon.stop());
+      }
+    });
+  });
+
   describe("status", () => {
     test("returns 'running' when daemon is active", async () => {
       const testDir = makeTestDir();
@@ -288,7 +338,10 @@ describe("DaemonService", () => {
       const response = await new Promise<Record<string, unknown>>(
         (resolve, reject) => {
           const client = net.createConnection({ path: socketPath }, () => {
-            client.write(JSON.stringify({ action: "ping" }) + "\n");
+            client.write(
+              JSON.stringify({ v: PROTOCOL_VERSION, id: "1", action: "ping" }) +
+                "\n"
+            );
           });
 
           let data = "";
@@ -318,6 +371,64 @@ describe("DaemonService", () => {
       await Effect.runPromise(daemon.stop());
     });
 
+    test("answers every request sent in one chunk", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const socketPath = join(testDir, "apptoken.sock");
+      const pidPath = join(testDir, "apptoken.pid");
+
+      const daemon = makeDaemonService({
+        socketPath,
+        pidPath,
+        tokenService: makeMockTokenService(),
+      });
+
+      await Effect.runPromise(daemon.start());
+
+      const responses = await new Promise<Array<Record<string, unknown>>>(
+        (resolve, reject) => {
+          const client = net.createConnection({ path: socketPath }, () => {
+            client.write(
+              JSON.stringify({ v: PROTOCOL_VERSION, id: "1", action: "getToken" }) +
+                "\n" +
+                JSON.stringify({ v: PROTOCOL_VERSION, id: "2", action: "unknownAction" }) +
+                "\n"
+            );
+          });
+
+          let data = "";
+          client.on("data", (chunk) => {
+            data += chunk.toString();
+            const lines = data.split("\n").filter((line) => line !== "");
+            if (lines.length === 2 && data.endsWith("\n")) {
+              client.end();
+              try {
+                resolve(
+                  lines.map((line) => JSON.parse(line) as Record<string, unknown>)
+                );
+              } catch (e) {
+                reject(e);
+              }
+            }
+          });
+
+          client.on("error", reject);
+          setTimeout(() => {
+            client.destroy();
+            reject(new Error("Timeout"));
+          }, 5000);
+        }
+      );
+
+      expect(responses[0]?.["ok"]).toBe(true);
+      expect(responses[0]?.["token"]).toBe(MOCK_TOKEN);
+      expect(responses[1]?.["ok"]).toBe(false);
+      expect(responses[1]?.["error"]).toBeDefined();
+
+      await Effect.runPromise(daemon.stop());
+    });
+
     test("stop cleans up all resources", async () => {
       const testDir = makeTestDir();
       cleanupDirs.push(testDir);
@@ -365,4 +476,685 @@ describe("DaemonService", () => {
       expect(connectResult).toBe("ENOENT");
     });
   });
+
+  describe("profiles", () => {
+    test("serves a profile added at runtime", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const socketPath = join(testDir, "apptoken.sock");
+      const pidPath = join(testDir, "apptoken.pid");
+      const passwords: string[] = [];
+
+      const daemon = makeDaemonService({
+        socketPath,
+        pidPath,
+        tokenService: makeMockTokenService(),
+        profile: "ci",
+        loadProfile: (_profile, password) => {
+          passwords.push(password);
+          return Effect.succeed(
+            makeTokenService({
+              pem: "release-pem",
+              appId: "333",
+              installationId: "444",
+              generateJwt: () => Effect.succeed("mock-jwt"),
+              requestInstallationToken: () =>
+                Effect.succeed({
+                  token: "ghs_release",
+                  expiresAt: MOCK_EXPIRES,
+                }),
+            })
+          );
+        },
+      });
+
+      await Effect.runPromise(daemon.start());
+
+      try {
+        const client = makeSocketClient(socketPath);
+        await Effect.runPromise(client.addProfile("release", "secret"));
+
+        const loaded = await Effect.runPromise(client.listProfiles());
+        const ci = await Effect.runPromise(client.requestToken({ profile: "ci" }));
+        const release = await Effect.runPromise(
+          client.requestToken({ profile: "release" })
+        );
+
+        expect(passwords).toEqual(["secret"]);
+        expect(loaded).toEqual(["ci", "release"]);
+        expect(ci.token).toBe(MOCK_TOKEN);
+        expect(release.token).toBe("ghs_release");
+      } finally {
+        await Effect.runPromise(daemon.stop());
+      }
+    });
+
+    test("returns ProfileNotLoaded for a profile that was not added", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const socketPath = join(testDir, "apptoken.sock");
+      const pidPath = join(testDir, "apptoken.pid");
+
+      const daemon = makeDaemonService({
+        socketPath,
+        pidPath,
+        tokenService: makeMockTokenService(),
+      });
+
+      await Effect.runPromise(daemon.start());
+
+      try {
+        const client = makeSocketClient(socketPath);
+        const result = await Effect.runPromise(
+          Effect.either(client.requestToken({ profile: "release" }))
+        );
+
+        expect(result._tag).toBe("Left");
+        if (result._tag === "Left") {
+          expect(result.left).toBeInstanceOf(ProfileNotLoaded);
+        }
+      } finally {
+        await Effect.runPromise(daemon.stop());
+      }
+    });
+  });
+
+  describe("installations", () => {
+    test("resolves a repository's installation and mints a token for it", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const socketPath = join(testDir, "apptoken.sock");
+      const pidPath = join(testDir, "apptoken.pid");
+      const lookups: string[] = [];
+      const minted: string[] = [];
+
+      const daemon = makeDaemonService({
+        socketPath,
+        pidPath,
+        tokenService: makeTokenService({
+          pem: "test-pem",
+          appId: "12345",
+          installationId: "67890",
+          generateJwt: () => Effect.succeed("mock-jwt"),
+          requestInstallationToken: (_jwt, installationId) => {
+            minted.push(installationId);
+            return Effect.succeed({
+              token: `ghs_${installationId}`,
+              expiresAt: MOCK_EXPIRES,
+            });
+          },
+          requestRepositoryInstallation: (_jwt, owner, repo) => {
+            lookups.push(`${owner}/${repo}`);
+            return Effect.succeed({
+              id: "11111",
+              account: owner,
+              accountType: "Organization",
+              repositorySelection: "all",
+            });
+          },
+        }),
+      });
+
+      await Effect.runPromise(daemon.start());
+
+      try {
+        const client = makeSocketClient(socketPath);
+        const installation = await Effect.runPromise(
+          client.resolveInstallation({ owner: "other-org", repo: "repo" })
+        );
+        await Effect.runPromise(
+          client.resolveInstallation({ owner: "other-org", repo: "repo" })
+        );
+        const token = await Effect.runPromise(
+          client.requestToken({ installationId: installation.id })
+        );
+
+        expect(installation.id).toBe("11111");
+        expect(lookups).toEqual(["other-org/repo"]);
+        expect(minted).toEqual(["11111"]);
+        expect(token.token).toBe("ghs_11111");
+      } finally {
+        await Effect.runPromise(daemon.stop());
+      }
+    });
+  });
+
+  describe("revocation", () => {
+    function makeRevokingTokenService(revoked: string[]) {
+      return makeTokenService({
+        pem: "test-pem",
+        appId: "12345",
+        installationId: "67890",
+        generateJwt: () => Effect.succeed("mock-jwt"),
+        requestInstallationToken: () =>
+          Effect.succeed({ token: MOCK_TOKEN, expiresAt: MOCK_EXPIRES }),
+        revokeInstallationToken: (token) => {
+          revoked.push(token);
+          return Effect.void;
+        },
+      });
+    }
+
+    test("revokes the cached token on request", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const revoked: string[] = [];
+      const daemon = makeDaemonService({
+        socketPath: join(testDir, "apptoken.sock"),
+        pidPath: join(testDir, "apptoken.pid"),
+        tokenService: makeRevokingTokenService(revoked),
+      });
+
+      await Effect.runPromise(daemon.start());
+
+      try {
+        const client = makeSocketClient(join(testDir, "apptoken.sock"));
+        await Effect.runPromise(client.requestToken());
+        const count = await Effect.runPromise(client.revokeTokens());
+
+        expect(count).toBe(1);
+        expect(revoked).toEqual([MOCK_TOKEN]);
+      } finally {
+        await Effect.runPromise(daemon.stop());
+      }
+    });
+
+    test("revokes issued tokens on stop only when revokeOnStop is set", async () => {
+      const run = async (revokeOnStop: boolean) => {
+        const testDir = makeTestDir();
+        cleanupDirs.push(testDir);
+
+        const revoked: string[] = [];
+        const daemon = makeDaemonService({
+          socketPath: join(testDir, "apptoken.sock"),
+          pidPath: join(testDir, "apptoken.pid"),
+          tokenService: makeRevokingTokenService(revoked),
+          revokeOnStop,
+        });
+
+        await Effect.runPromise(daemon.start());
+        const client = makeSocketClient(join(testDir, "apptoken.sock"));
+        await Effect.runPromise(client.requestToken());
+        await Effect.runPromise(daemon.stop());
+        return revoked;
+      };
+
+      expect(await run(true)).toEqual([MOCK_TOKEN]);
+      expect(await run(false)).toEqual([]);
+    });
+  });
+
+  describe("background refresh", () => {
+    test("reports refresh state only when background refresh is enabled", async () => {
+      const check = async (refresh: boolean) => {
+        const testDir = makeTestDir();
+        cleanupDirs.push(testDir);
+
+        const daemon = makeDaemonService({
+          socketPath: join(testDir, "apptoken.sock"),
+          pidPath: join(testDir, "apptoken.pid"),
+          tokenService: makeMockTokenService(),
+          ...(refresh ? { refresh: DEFAULT_REFRESH_OPTIONS } : {}),
+        });
+
+        await Effect.runPromise(daemon.start());
+        try {
+          const client = makeSocketClient(join(testDir, "apptoken.sock"));
+          return (await Effect.runPromise(client.status())).refresh;
+        } finally {
+          await Effect.runPromise(daemon.stop());
+        }
+      };
+
+      const enabled = await check(true);
+      expect(enabled?.status).toBe("ok");
+      expect(typeof enabled?.nextCheckAt).toBe("string");
+      expect(await check(false)).toBeUndefined();
+    });
+  });
+
+  describe("status", () => {
+    test("reports profiles, cached tokens and request counts", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const daemon = makeDaemonService({
+        socketPath: join(testDir, "apptoken.sock"),
+        pidPath: join(testDir, "apptoken.pid"),
+        tokenService: makeMockTokenService(),
+      });
+
+      await Effect.runPromise(daemon.start());
+      try {
+        const client = makeSocketClient(join(testDir, "apptoken.sock"));
+        await Effect.runPromise(client.requestToken({ scope: { repositories: ["repo-a"] } }));
+        await Effect.runPromise(
+          Effect.either(client.requestToken({ profile: "missing" }))
+        );
+        await Effect.runPromise(client.ping());
+
+        const report = await Effect.runPromise(client.status());
+        expect(report.pid).toBe(process.pid);
+        expect(report.locked).toBe(false);
+        expect(report.uptimeMs).toBeGreaterThanOrEqual(0);
+        expect(report.requests).toEqual({ total: 2, failed: 1 });
+        expect(report.lastError?.message).toContain("missing");
+        expect(report.profiles).toEqual([
+          {
+            profile: "default",
+            appId: "12345",
+            installationId: "67890",
+            cachedTokens: [
+              {
+                installationId: "67890",
+                expiresAt: MOCK_EXPIRES.toISOString(),
+                scope: { repositories: ["repo-a"] },
+              },
+            ],
+          },
+        ]);
+        expect(report.refresh).toBeUndefined();
+      } finally {
+        await Effect.runPromise(daemon.stop());
+      }
+    });
+  });
+
+  describe("timeouts", () => {
+    test("stops after the idle timeout and cleans up", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const socketPath = join(testDir, "apptoken.sock");
+      const pidPath = join(testDir, "apptoken.pid");
+      const daemon = makeDaemonService({
+        socketPath,
+        pidPath,
+        tokenService: makeMockTokenService(),
+        idleTimeoutMs: 400,
+      });
+
+      await Effect.runPromise(daemon.start());
+      const client = makeSocketClient(socketPath);
+
+      // A token request resets the idle timer; status pings do not
+      await new Promise((resolve) => setTimeout(resolve, 250));
+      await Effect.runPromise(client.requestToken());
+      await new Promise((resolve) => setTimeout(resolve, 250));
+      await Effect.runPromise(client.ping());
+      expect(existsSync(socketPath)).toBe(true);
+
+      await Effect.runPromise(daemon.awaitStop());
+
+      expect(existsSync(socketPath)).toBe(false);
+      expect(existsSync(pidPath)).toBe(false);
+      const status = await Effect.runPromise(daemon.status());
+      expect(status.running).toBe(false);
+    });
+
+    test("stops when the lifetime ends, however busy", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const socketPath = join(testDir, "apptoken.sock");
+      const daemon = makeDaemonService({
+        socketPath,
+        pidPath: join(testDir, "apptoken.pid"),
+        tokenService: makeMockTokenService(),
+        idleTimeoutMs: 10_000,
+        lifetimeMs: 100,
+      });
+
+      const startedAt = Date.now();
+      await Effect.runPromise(daemon.start());
+      await Effect.runPromise(makeSocketClient(socketPath).requestToken());
+      await Effect.runPromise(daemon.awaitStop());
+
+      expect(Date.now() - startedAt).toBeLessThan(5000);
+      expect(existsSync(socketPath)).toBe(false);
+    });
+
+    test("awaitStop completes when stop() is called", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const daemon = makeDaemonService({
+        socketPath: join(testDir, "apptoken.sock"),
+        pidPath: join(testDir, "apptoken.pid"),
+        tokenService: makeMockTokenService(),
+      });
+
+      await Effect.runPromise(daemon.start());
+      const stopped = Effect.runPromise(daemon.awaitStop());
+      await Effect.runPromise(daemon.stop());
+      await stopped;
+    });
+  });
+
+  describe("lock", () => {
+    function makeLockableDaemon(testDir: string, startLocked = false) {
+      const passwords: string[] = [];
+      const daemon = makeDaemonService({
+        socketPath: join(testDir, "apptoken.sock"),
+        pidPath: join(testDir, "apptoken.pid"),
+        ...(startLocked ? {} : { tokenService: makeMockTokenService() }),
+        loadProfile: (_profile, password) => {
+          passwords.push(password);
+          return password === "secret"
+            ? Effect.succeed(makeMockTokenService())
+            : Effect.fail(new Error("Incorrect password"));
+        },
+      });
+      return { daemon, passwords };
+    }
+
+    test("refuses tokens while locked and serves them again after unlock", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const { daemon, passwords } = makeLockableDaemon(testDir);
+      await Effect.runPromise(daemon.start());
+
+      try {
+        const client = makeSocketClient(join(testDir, "apptoken.sock"));
+        await Effect.runPromise(client.requestToken());
+        await Effect.runPromise(client.lock());
+
+        const locked = await Effect.runPromise(
+          Effect.either(client.requestToken())
+        );
+        expect(locked._tag).toBe("Left");
+        if (locked._tag === "Left") {
+          expect(locked.left).toBeInstanceOf(DaemonLocked);
+        }
+        expect(await Effect.runPromise(client.listProfiles())).toEqual([]);
+
+        const wrong = await Effect.runPromise(
+          Effect.either(client.unlock("wrong"))
+        );
+        expect(wrong._tag).toBe("Left");
+
+        await Effect.runPromise(client.unlock("secret"));
+        const token = await Effect.runPromise(client.requestToken());
+
+        expect(token.token).toBe(MOCK_TOKEN);
+        expect(passwords).toEqual(["wrong", "secret"]);
+      } finally {
+        await Effect.runPromise(daemon.stop());
+      }
+    });
+
+    test("starts locked without a token service", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const { daemon } = makeLockableDaemon(testDir, true);
+      await Effect.runPromise(daemon.start());
+
+      try {
+        const client = makeSocketClient(join(testDir, "apptoken.sock"));
+        const locked = await Effect.runPromise(
+          Effect.either(client.requestToken())
+        );
+        expect(locked._tag).toBe("Left");
+        if (locked._tag === "Left") {
+          expect(locked.left).toBeInstanceOf(DaemonLocked);
+        }
+
+        await Effect.runPromise(client.unlock("secret"));
+        const token = await Effect.runPromise(client.requestToken());
+        expect(token.token).toBe(MOCK_TOKEN);
+      } finally {
+        await Effect.runPromise(daemon.stop());
+      }
+    });
+
+    function makeNumberedTokenService(revoked: string[]) {
+      let minted = 0;
+      return makeTokenService({
+        pem: "test-pem",
+        appId: "12345",
+        installationId: "67890",
+        generateJwt: () => Effect.succeed("mock-jwt"),
+        requestInstallationToken: () =>
+          Effect.sync(() => ({
+            token: `ghs_token_${++minted}`,
+            expiresAt: MOCK_EXPIRES,
+          })),
+        revokeInstallationToken: (token) =>
+          Effect.sync(() => {
+            revoked.push(token);
+          }),
+      });
+    }
+
+    test("revokes tokens issued before a lock when it stops", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const revoked: string[] = [];
+      const daemon = makeDaemonService({
+        socketPath: join(testDir, "apptoken.sock"),
+        pidPath: join(testDir, "apptoken.pid"),
+        tokenService: makeNumberedTokenService(revoked),
+        loadProfile: () => Effect.succeed(makeNumberedTokenService(revoked)),
+        revokeOnStop: true,
+      });
+      await Effect.runPromise(daemon.start());
+
+      const client = makeSocketClient(join(testDir, "apptoken.sock"));
+      await Effect.runPromise(client.requestToken());
+      await Effect.runPromise(client.lock());
+      await Effect.runPromise(daemon.stop());
+
+      expect(revoked).toEqual(["ghs_token_1"]);
+    });
+
+    test("revokes tokens from before a lock or reload on request", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const revoked: string[] = [];
+      let loads = 0;
+      const daemon = makeDaemonService({
+        socketPath: join(testDir, "apptoken.sock"),
+        pidPath: join(testDir, "apptoken.pid"),
+        tokenService: makeNumberedTokenService(revoked),
+        loadProfile: () =>
+          Effect.sync(() => {
+            loads += 1;
+            return makeTokenService({
+              pem: "test-pem",
+              appId: "12345",
+              installationId: "67890",
+              generateJwt: () => Effect.succeed("mock-jwt"),
+              requestInstallationToken: () =>
+                Effect.succeed({
+                  token: `ghs_load_${loads}`,
+                  expiresAt: MOCK_EXPIRES,
+                }),
+              revokeInstallationToken: (token) =>
+                Effect.sync(() => {
+                  revoked.push(token);
+                }),
+            });
+          }),
+      });
+      await Effect.runPromise(daemon.start());
+
+      try {
+        const client = makeSocketClient(join(testDir, "apptoken.sock"));
+        await Effect.runPromise(client.requestToken());
+        await Effect.runPromise(client.lock());
+        expect(await Effect.runPromise(client.revokeTokens())).toBe(1);
+
+        await Effect.runPromise(client.unlock("secret"));
+        await Effect.runPromise(client.requestToken());
+        await Effect.runPromise(client.addProfile("default", "secret"));
+        await Effect.runPromise(client.requestToken());
+        expect(await Effect.runPromise(client.revokeTokens())).toBe(2);
+
+        expect(revoked).toEqual(["ghs_token_1", "ghs_load_1", "ghs_load_2"]);
+      } finally {
+        await Effect.runPromise(daemon.stop());
+      }
+    });
+
+    test("refuses to lock a daemon that could not be unlocked", async () => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const daemon = makeDaemonService({
+        socketPath: join(testDir, "apptoken.sock"),
+        pidPath: join(testDir, "apptoken.pid"),
+        tokenService: makeMockTokenService(),
+      });
+      await Effect.runPromise(daemon.start());
+
+      try {
+        const client = makeSocketClient(join(testDir, "apptoken.sock"));
+        const result = await Effect.runPromise(Effect.either(client.lock()));
+        expect(result._tag).toBe("Left");
+
+        const token = await Effect.runPromise(client.requestToken());
+        expect(token.token).toBe(MOCK_TOKEN);
+      } finally {
+        await Effect.runPromise(daemon.stop());
+      }
+    });
+  });
+
+  describe("client authentication", () => {
+    const startDaemon = async (
+      peerUid: number | undefined,
+      log: string[]
+    ) => {
+      const testDir = makeTestDir();
+      cleanupDirs.push(testDir);
+
+      const paths = {
+        socketPath: join(testDir, "apptoken.sock"),
+        secretPath: join(testDir, "daemon.secret"),
+      };
+      const daemon = makeDaemonService({
+        ...paths,
+        pidPath: join(testDir, "apptoken.pid"),
+        tokenService: makeMockTokenService(),
+        peerUid: () => peerUid,
+        log: (message) => log.push(message),
+      });
+      await Effect.runPromise(daemon.start());
+      return { daemon, testDir, ...paths };
+    };
+
+    test("writes a 0600 session secret and removes it on stop", async () => {
+      const { daemon, secretPath } = await startDaemon(undefined, []);
+
+      expect(statSync(secretPath).mode & 0o777).toBe(0o600);
+      expect(readFileSync(secretPath, "utf8")).toMatch(/^[0-9a-f]{64}$/);
+
+      await Effect.runPromise(daemon.stop());
+      expect(existsSync(secretPath)).toBe(false);
+    });
+
+    test("serves an unidentified peer that presents the secret", async () => {
+      const log: string[] = [];
+      const { daemon, socketPath, secretPath } = await startDaemon(
+        undefined,
+        log
+      );
+
+      try {
+        const client = makeSocketClient(socketPath, { secretPath });
+        const token = await Effect.runPromise(client.requestToken());
+        expect(token.token).toBe(MOCK_TOKEN);
+        expect(log).toEqual([]);
+      } finally {
+        await Effect.runPromise(daemon.stop());
+      }
+    });
+
+    test("refuses an unidentified peer without the secret", async () => {
+      const log: string[] = [];
+      const { daemon, socketPath, testDir } = await startDaemon(
+        undefined,
+        log
+      );
+
+      try {
+        const anonymous = makeSocketClient(socketPath);
+        await Effect.runPromise(anonymous.ping());
+        const result = await Effect.runPromise(
+          Effect.either(anonymous.requestToken())
+        );
+        expect(result._tag).toBe("Left");
+        if (result._tag === "Left") {
+          expect(result.left).toBeInstanceOf(DaemonAuthFailed);
+        }
+
+        const wrongSecretPath = join(testDir, "wrong.secret");
+        writeFileSync(wrongSecretPath, "0".repeat(64));
+        const impostor = makeSocketClient(socketPath, {
+          secretPath: wrongSecretPath,
+        });
+        const wrong = await Effect.runPromise(
+          Effect.either(impostor.requestToken())
+        );
+        expect(wrong._tag).toBe("Left");
+        if (wrong._tag === "Left") {
+          expect(wrong.left).toBeInstanceOf(DaemonAuthFailed);
+        }
+
+        expect(log).toEqual([
+          "Rejected getToken request without the session secret",
+          "Rejected handshake with a wrong session secret",
+        ]);
+      } finally {
+        await Effect.runPromise(daemon.stop());
+      }
+    });
+
+    test("drops connections from another user", async () => {
+      const log: string[] = [];
+      const otherUid = (process.getuid?.() ?? 0) + 1;
+      const { daemon, socketPath, secretPath } = await startDaemon(
+        otherUid,
+        log
+      );
+
+      try {
+        // Even the secret does not help a peer known to be someone else
+        const client = makeSocketClient(socketPath, { secretPath });
+        const result = await Effect.runPromise(
+          Effect.either(client.requestToken())
+        );
+        expect(result._tag).toBe("Left");
+        if (result._tag === "Left") {
+          expect(result.left).toBeInstanceOf(SocketError);
+        }
+        expect(log).toEqual([`Rejected connection from UID ${otherUid}`]);
+      } finally {
+        await Effect.runPromise(daemon.stop());
+      }
+    });
+
+    test("serves a peer with the same UID without a handshake", async () => {
+      const { daemon, socketPath } = await startDaemon(
+        process.getuid?.() ?? 0,
+        []
+      );
+
+      try {
+        const client = makeSocketClient(socketPath);
+        const token = await Effect.runPromise(client.requestToken());
+        expect(token.token).toBe(MOCK_TOKEN);
+      } finally {
+        await Effect.runPromise(daemon.stop());
+      }
+    });
+  });
 });
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import { formatDaemonStatus } from "../src/daemon-status.ts";
+import type { DaemonStatusReport } from "../src/services/SocketProtocol.ts";
+
+const NOW = Date.parse("2026-01-01T12:00:00.000Z");
+
+const report: DaemonStatusReport = {
+  pid: 4242,
+  startedAt: "2026-01-01T10:55:00.000Z",
+  uptimeMs: 65 * 60 * 1000,
+  locked: false,
+  profiles: [
+    {
+      profile: "default",
+      appId: "12345",
+      installationId: "67890",
+      cachedTokens: [
+        { installationId: "67890", expiresAt: "2026-01-01T12:42:00.000Z" },
+        {
+          installationId: "111",
+          expiresAt: "2026-01-01T11:59:00.000Z",
+          scope: {
+            repositories: ["repo-a"],
+            permissions: { contents: "read" },
+          },
+        },
+      ],
+    },
+  ],
+  requests: { total: 7, failed: 1 },
+  lastError: { message: "Profile not loaded", at: "2026-01-01T11:00:00.000Z" },
+};
+
+describe("formatDaemonStatus", () => {
+  test("describes the daemon, its profiles and cached tokens", () => {
+    const output = formatDaemonStatus(report, NOW);
+
+    expect(output).toContain("Daemon: running (PID: 4242)");
+    expect(output).toContain("Uptime: 1h5m");
+    expect(output).toContain("State: unlocked");
+    expect(output).toContain("Requests: 7 (1 failed)");
+    expect(output).toContain("Last error: Profile not loaded");
+    expect(output).toContain("Profile default: App 12345, installation 67890");
+    expect(output).toContain(
+      "Token for installation 67890 (full access), expires in 42m"
+    );
+    expect(output).toContain(
+      "Token for installation 111 (repos repo-a contents:read), expired"
+    );
+    expect(output).toContain("Refresh: on demand");
+  });
+
+  test("reports a locked daemon and background refresh failures", () => {
+    const output = formatDaemonStatus(
+      {
+        ...report,
+        locked: true,
+        profiles: [],
+        refresh: {
+          status: "retrying",
+          consecutiveFailures: 2,
+          lastError: "GitHub API error",
+        },
+      },
+      NOW
+    );
+
+    expect(output).toContain("State: locked");
+    expect(output).toContain("Profiles: none loaded");
+    expect(output).toContain("Refresh: retrying after 2 failure(s)");
+    expect(output).toContain("Last error:   GitHub API error");
+  });
+});
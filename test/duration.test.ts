@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { formatDuration, parseDuration } from "../src/duration.ts";
+
+describe("parseDuration", () => {
+  test("parses single units", () => {
+    expect(parseDuration("500ms")).toBe(500);
+    expect(parseDuration("90s")).toBe(90_000);
+    expect(parseDuration("10m")).toBe(600_000);
+    expect(parseDuration("1h")).toBe(3_600_000);
+    expect(parseDuration("1d")).toBe(86_400_000);
+  });
+
+  test("parses combined units", () => {
+    expect(parseDuration("1h30m")).toBe(5_400_000);
+  });
+
+  test("rejects values without a unit", () => {
+    expect(parseDuration("10")).toBeUndefined();
+    expect(parseDuration("ten minutes")).toBeUndefined();
+    expect(parseDuration("")).toBeUndefined();
+  });
+});
+
+describe("formatDuration", () => {
+  test("renders the two largest units", () => {
+    expect(formatDuration(42_000)).toBe("42s");
+    expect(formatDuration(3_900_000)).toBe("1h5m");
+    expect(formatDuration(90_061_000)).toBe("1d1h");
+  });
+
+  test("drops units after a zero", () => {
+    expect(formatDuration(3_630_000)).toBe("1h");
+  });
+
+  test("renders less than a second as 0s", () => {
+    expect(formatDuration(0)).toBe("0s");
+    expect(formatDuration(500)).toBe("0s");
+  });
+});
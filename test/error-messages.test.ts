@@ -3,12 +3,24 @@ import {
   ConfigNotFound,
   PemNotFound,
   InvalidPassword,
+  DecryptError,
+  PasswordCommandFailed,
+  AppCredentialsRejected,
+  InstallationMismatch,
   JwtGenerationError,
   GitHubApiError,
   DaemonNotRunning,
   DaemonAlreadyRunning,
+  DaemonLocked,
+  DaemonAuthFailed,
   DaemonError,
   SocketError,
+  ProfileNotFound,
+  ProfileNotLoaded,
+  ProxyError,
+  TlsError,
+  CaFileNotFound,
+  ClockSkewError,
 } from "../src/errors.ts";
 import { CommandNotFound } from "../src/services/CommandExecutor.ts";
 import { formatError } from "../src/format-error.ts";
@@ -27,6 +39,48 @@ describe("formatError", () => {
     expect(message).toContain("Incorrect password");
   });
 
+  test("PasswordCommandFailed shows the command's stderr", () => {
+    const error = new PasswordCommandFailed({
+      command: "pass show apptoken",
+      exitCode: 2,
+      stderr: "Error: apptoken is not in the password store.\n",
+    });
+    const message = formatError(error);
+    expect(message).toContain("pass show apptoken");
+    expect(message).toContain("exit code 2");
+    expect(message).toContain("not in the password store");
+  });
+
+  test("AppCredentialsRejected names the App ID", () => {
+    const error = new AppCredentialsRejected({
+      appId: "123",
+      message: "A JSON web token could not be decoded",
+    });
+    expect(formatError(error)).toContain("does not belong to App ID 123");
+    expect(formatError(error, { verbose: true })).toContain(
+      "could not be decoded"
+    );
+  });
+
+  test("InstallationMismatch names the installation and the app", () => {
+    const error = new InstallationMismatch({
+      installationId: "456",
+      appName: "My Bot",
+    });
+    const message = formatError(error);
+    expect(message).toContain("Installation 456 is not an installation of My Bot");
+    expect(message).toContain("--installation-id");
+  });
+
+  test("DecryptError explains why the key cannot be read", () => {
+    const error = new DecryptError({
+      message: "The encrypted PEM uses format version 3, which needs a newer apptoken.",
+    });
+    const message = formatError(error);
+    expect(message).toContain("Cannot decrypt the private key");
+    expect(message).toContain("newer apptoken");
+  });
+
   test("PemNotFound suggests running init", () => {
     const error = new PemNotFound({ path: "/some/path/pem.enc" });
     const message = formatError(error);
@@ -45,6 +99,20 @@ describe("formatError", () => {
     expect(message).toContain("already running");
   });
 
+  test("DaemonLocked suggests unlocking", () => {
+    const message = formatError(new DaemonLocked());
+    expect(message).toContain("locked");
+    expect(message).toContain("apptoken unlock");
+  });
+
+  test("DaemonAuthFailed includes the reason and suggests a restart", () => {
+    const message = formatError(
+      new DaemonAuthFailed({ message: "wrong session secret" })
+    );
+    expect(message).toContain("wrong session secret");
+    expect(message).toContain("apptoken daemon stop");
+  });
+
   test("GitHubApiError 401 suggests checking credentials", () => {
     const error = new GitHubApiError({ status: 401, message: "Unauthorized" });
     const message = formatError(error);
@@ -64,6 +132,27 @@ describe("formatError", () => {
     expect(message).toContain("500");
   });
 
+  test("GitHubApiError rate limit says when to retry", () => {
+    const error = new GitHubApiError({
+      status: 403,
+      message: "API rate limit exceeded",
+      rateLimit: { retryAt: new Date(Date.now() + 5 * 60 * 1000 + 500) },
+    });
+    expect(formatError(error)).toBe(
+      "GitHub rate limit exceeded. Try again in 5m."
+    );
+    expect(formatError(error, { verbose: true })).toContain("Retry at: ");
+  });
+
+  test("GitHubApiError 5xx and network failures suggest trying again", () => {
+    expect(
+      formatError(new GitHubApiError({ status: 502, message: "Bad Gateway" }))
+    ).toContain("Try again in a few minutes");
+    expect(
+      formatError(new GitHubApiError({ status: 0, message: "Request failed" }))
+    ).toContain("Check your network connection");
+  });
+
   test("CommandNotFound suggests installing gh", () => {
     const error = new CommandNotFound({ command: "gh" });
     const message = formatError(error);
@@ -78,6 +167,12 @@ describe("formatError", () => {
     expect(message).not.toContain("cli.github.com");
   });
 
+  test("CommandNotFound for other commands names the command", () => {
+    const error = new CommandNotFound({ command: "terraform" });
+    const message = formatError(error);
+    expect(message).toContain("terraform not found");
+  });
+
   test("JwtGenerationError shows generation failure", () => {
     const error = new JwtGenerationError({ message: "bad key" });
     const message = formatError(error);
@@ -96,6 +191,64 @@ describe("formatError", () => {
     expect(message).toContain("startup failed");
   });
 
+  test("ProfileNotFound suggests init with the profile", () => {
+    const error = new ProfileNotFound({ profile: "release" });
+    const message = formatError(error);
+    expect(message).toContain("apptoken init --profile release");
+  });
+
+  test("ProfileNotLoaded suggests loading the profile", () => {
+    const error = new ProfileNotLoaded({ profile: "release" });
+    const message = formatError(error);
+    expect(message).toContain("daemon start --profile release");
+  });
+
+  test("ClockSkewError says how far off the clock is", () => {
+    const error = new ClockSkewError({
+      offsetMs: -125_400,
+      message: "'Issued at' claim ('iat') must be an Integer representing a time in the past",
+    });
+    const message = formatError(error);
+    expect(message).toContain("off by 125 seconds");
+    expect(message).toContain("ahead of GitHub");
+    expect(formatError(error, { verbose: true })).toContain("'iat'");
+  });
+
+  test("ProxyError names the proxy and how to bypass it", () => {
+    const error = new ProxyError({
+      proxy: "http://proxy.corp:3128",
+      message: "Proxy refused to open a tunnel: 407 Proxy Authentication Required",
+    });
+    const message = formatError(error);
+    expect(message).toContain("http://proxy.corp:3128");
+    expect(message).toContain("NO_PROXY");
+    expect(formatError(error, { verbose: true })).toContain("407");
+  });
+
+  test("TlsError suggests configuring a CA bundle", () => {
+    const error = new TlsError({
+      code: "SELF_SIGNED_CERT_IN_CHAIN",
+      message: "self signed certificate in certificate chain",
+    });
+    const message = formatError(error);
+    expect(message).toContain("SELF_SIGNED_CERT_IN_CHAIN");
+    expect(message).toContain("caFile");
+  });
+
+  test("TlsError names the CA bundle that did not help", () => {
+    const error = new TlsError({
+      code: "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+      message: "unable to get local issuer certificate",
+      caFile: "/etc/ssl/corp-ca.pem",
+    });
+    expect(formatError(error)).toContain("/etc/ssl/corp-ca.pem");
+  });
+
+  test("CaFileNotFound names the missing bundle", () => {
+    const error = new CaFileNotFound({ path: "/etc/ssl/missing.pem" });
+    expect(formatError(error)).toContain("/etc/ssl/missing.pem");
+  });
+
   test("verbose mode includes extra detail for GitHubApiError", () => {
     const error = new GitHubApiError({ status: 401, message: "Bad credentials" });
     const message = formatError(error, { verbose: true });
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { Readable } from "stream";
+import { Effect } from "effect";
+import {
+  credentialMatchesHost,
+  formatCredentialResponse,
+  parseCredentialRequest,
+  readCredentialRequest,
+} from "../src/git-credential.ts";
+
+describe("git credential helper protocol", () => {
+  test("readCredentialRequest stops at the blank line", async () => {
+    const stream = Readable.from(["protocol=https\nhost=git", "hub.com\n\n"]);
+    const input = await Effect.runPromise(readCredentialRequest(stream));
+    expect(parseCredentialRequest(input)).toEqual({
+      protocol: "https",
+      host: "github.com",
+    });
+  });
+
+  test("readCredentialRequest returns input at end of stream", async () => {
+    const stream = Readable.from(["protocol=https\nhost=github.com\n"]);
+    const input = await Effect.runPromise(readCredentialRequest(stream));
+    expect(parseCredentialRequest(input)["host"]).toBe("github.com");
+  });
+
+  test("parseCredentialRequest keeps '=' inside values", () => {
+    const request = parseCredentialRequest("path=a=b\nhost=github.com\n");
+    expect(request["path"]).toBe("a=b");
+  });
+
+  test("matches only https requests for the configured host", () => {
+    expect(
+      credentialMatchesHost({ protocol: "https", host: "GitHub.com" }, "github.com")
+    ).toBe(true);
+    expect(
+      credentialMatchesHost({ protocol: "http", host: "github.com" }, "github.com")
+    ).toBe(false);
+    expect(
+      credentialMatchesHost({ protocol: "https", host: "gitlab.com" }, "github.com")
+    ).toBe(false);
+  });
+
+  test("formats the response with x-access-token and expiry", () => {
+    const response = formatCredentialResponse(
+      { protocol: "https", host: "github.com" },
+      { token: "ghs_abc", expiresAt: new Date("2026-01-28T12:00:00Z") }
+    );
+    expect(response).toBe(
+      [
+        "protocol=https",
+        "host=github.com",
+        "username=x-access-token",
+        "password=ghs_abc",
+        "password_expiry_utc=1769601600",
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -1,21 +1,45 @@
 import { describe, expect, test } from "bun:test";
 import { Effect, Layer } from "effect";
-import { HttpClient, HttpClientResponse } from "@effect/platform";
-import { requestInstallationToken } from "../src/services/GitHubApiClient.ts";
+import {
+  HttpClient,
+  HttpClientError,
+  HttpClientResponse,
+} from "@effect/platform";
+import { GitHubApiError } from "../src/errors.ts";
+import {
+  getApp,
+  getInstallation,
+  getRepositoryInstallation,
+  GitHubApiBaseUrl,
+  GitHubRetryPolicy,
+  listInstallations,
+  parseRateLimit,
+  requestInstallationToken,
+  revokeInstallationToken,
+  type RetryPolicy,
+} from "../src/services/GitHubApiClient.ts";
+import { GitHubClock, makeClockSkew } from "../src/services/ClockSkew.ts";
+
+type MockResponse =
+  | {
+      status: number;
+      body: unknown;
+      headers?: Record<string, string>;
+    }
+  | "network-error";
 
 function mockHttpClient(
   handler: (request: {
     method: string;
     url: string;
     headers: Record<string, string>;
-  }) => {
-    status: number;
-    body: unknown;
-  }
+    body: string | undefined;
+    params: Record<string, string>;
+  }) => MockResponse
 ): Layer.Layer<HttpClient.HttpClient> {
   return Layer.succeed(
     HttpClient.HttpClient,
-    HttpClient.make((request, _url) => {
+    HttpClient.make((request, url) => {
       const hdrs: Record<string, string> = {};
       for (const [k, v] of Object.entries(request.headers)) {
         hdrs[k] = v;
@@ -24,10 +48,20 @@ function mockHttpClient(
         method: request.method,
         url: request.url,
         headers: hdrs,
+        body:
+          request.body._tag === "Uint8Array"
+            ? new TextDecoder().decode(request.body.body)
+            : undefined,
+        params: Object.fromEntries(url.searchParams),
       });
+      if (result === "network-error") {
+        return Effect.fail(
+          new HttpClientError.RequestError({ request, reason: "Transport" })
+        );
+      }
       const response = new Response(JSON.stringify(result.body), {
         status: result.status,
-        headers: { "content-type": "application/json" },
+        headers: { "content-type": "application/json", ...result.headers },
       });
       return Effect.succeed(HttpClientResponse.fromWeb(request, response));
     })
@@ -40,7 +74,13 @@ const MOCK_EXPIRES = "2026-01-28T12:00:00Z";
 describe("GitHubApiClient", () => {
   test("requests installation token with correct URL and auth header", async () => {
     let capturedRequest:
-      | { method: string; url: string; headers: Record<string, string> }
+      | {
+          method: string;
+          url: string;
+          headers: Record<string, string>;
+          body: string | undefined;
+          params: Record<string, string>;
+        }
       | undefined;
 
     const layer = mockHttpClient((req) => {
@@ -87,6 +127,7 @@ describe("GitHubApiClient", () => {
     expect(result.token).toBe(MOCK_TOKEN);
     expect(result.expiresAt).toBeInstanceOf(Date);
     expect(result.expiresAt.getTime()).toBe(new Date(MOCK_EXPIRES).getTime());
+    expect(result.permissions).toEqual({ contents: "read" });
   });
 
   test("handles 401 Unauthorized with GitHubApiError", async () => {
@@ -124,4 +165,495 @@ describe("GitHubApiClient", () => {
       expect(causeStr).toContain("404");
     }
   });
+
+  test("rejects a token response it cannot use", async () => {
+    for (const body of [
+      { message: "Accepted" },
+      { token: MOCK_TOKEN, expires_at: "soon" },
+      { token: "", expires_at: MOCK_EXPIRES },
+    ]) {
+      const layer = mockHttpClient(() => ({ status: 201, body }));
+
+      const result = await Effect.runPromise(
+        Effect.either(
+          requestInstallationToken("fake-jwt", "67890").pipe(
+            Effect.provide(layer)
+          )
+        )
+      );
+
+      expect(result._tag).toBe("Left");
+      if (result._tag === "Left") {
+        expect(result.left).toBeInstanceOf(GitHubApiError);
+        expect(result.left.message).toContain("Unexpected response body");
+      }
+    }
+  });
+
+  test("sends no body when no scope is requested", async () => {
+    let capturedBody: string | undefined = "unset";
+
+    const layer = mockHttpClient((req) => {
+      capturedBody = req.body;
+      return {
+        status: 201,
+        body: { token: MOCK_TOKEN, expires_at: MOCK_EXPIRES },
+      };
+    });
+
+    await Effect.runPromise(
+      requestInstallationToken("fake-jwt", "67890").pipe(Effect.provide(layer))
+    );
+
+    expect(capturedBody).toBeUndefined();
+  });
+
+  test("sends repositories and permissions in the request body", async () => {
+    let capturedBody: string | undefined;
+
+    const layer = mockHttpClient((req) => {
+      capturedBody = req.body;
+      return {
+        status: 201,
+        body: { token: MOCK_TOKEN, expires_at: MOCK_EXPIRES },
+      };
+    });
+
+    await Effect.runPromise(
+      requestInstallationToken("fake-jwt", "67890", {
+        repositories: ["apptoken"],
+        permissions: { contents: "read" },
+      }).pipe(Effect.provide(layer))
+    );
+
+    expect(JSON.parse(capturedBody!)).toEqual({
+      repositories: ["apptoken"],
+      permissions: { contents: "read" },
+    });
+  });
+
+  test("sends every request to the configured Enterprise Server", async () => {
+    const urls: string[] = [];
+
+    const layer = mockHttpClient((req) => {
+      urls.push(req.url);
+      return req.url.endsWith("/access_tokens")
+        ? { status: 201, body: { token: MOCK_TOKEN, expires_at: MOCK_EXPIRES } }
+        : req.url.endsWith("/installation")
+          ? {
+              status: 200,
+              body: { id: 1, account: null, repository_selection: "all" },
+            }
+          : req.method === "GET"
+            ? { status: 200, body: [] }
+            : { status: 204, body: undefined };
+    });
+
+    await Effect.runPromise(
+      Effect.all([
+        requestInstallationToken("fake-jwt", "67890"),
+        revokeInstallationToken(MOCK_TOKEN),
+        getRepositoryInstallation("fake-jwt", "acme", "api"),
+        listInstallations("fake-jwt"),
+      ]).pipe(
+        Effect.provideService(
+          GitHubApiBaseUrl,
+          "https://ghe.example.com/api/v3"
+        ),
+        Effect.provide(layer)
+      )
+    );
+
+    expect(urls).toEqual([
+      "https://ghe.example.com/api/v3/app/installations/67890/access_tokens",
+      "https://ghe.example.com/api/v3/installation/token",
+      "https://ghe.example.com/api/v3/repos/acme/api/installation",
+      "https://ghe.example.com/api/v3/app/installations",
+    ]);
+  });
+
+  test("learns GitHub's clock from the Date header, even on failures", async () => {
+    const clock = makeClockSkew();
+    const layer = mockHttpClient(() => ({
+      status: 401,
+      body: { message: "'Expiration time' claim ('exp') is too far in the future" },
+      headers: { date: new Date(Date.now() - 10 * 60 * 1000).toUTCString() },
+    }));
+
+    await Effect.runPromise(
+      Effect.either(
+        requestInstallationToken("fake-jwt", "67890").pipe(
+          Effect.provideService(GitHubClock, clock),
+          Effect.provide(layer)
+        )
+      )
+    );
+
+    expect(clock.offsetMs()).toBeLessThan(-9 * 60 * 1000);
+  });
+
+  test("lists installations with account details", async () => {
+    let capturedRequest:
+      | { method: string; url: string; headers: Record<string, string> }
+      | undefined;
+
+    const layer = mockHttpClient((req) => {
+      capturedRequest = req;
+      return {
+        status: 200,
+        body: [
+          {
+            id: 111,
+            account: { login: "acme", type: "Organization" },
+            repository_selection: "selected",
+          },
+        ],
+      };
+    });
+
+    const installations = await Effect.runPromise(
+      listInstallations("fake-jwt").pipe(Effect.provide(layer))
+    );
+
+    expect(capturedRequest!.method).toBe("GET");
+    expect(capturedRequest!.url).toBe("https://api.github.com/app/installations");
+    expect(capturedRequest!.headers["authorization"]).toBe("Bearer fake-jwt");
+    expect(installations).toEqual([
+      {
+        id: "111",
+        account: "acme",
+        accountType: "Organization",
+        repositorySelection: "selected",
+      },
+    ]);
+  });
+
+  test("follows pages until a short page is returned", async () => {
+    const pages: string[] = [];
+
+    const layer = mockHttpClient((req) => {
+      const page = req.params["page"]!;
+      pages.push(page);
+      const count = page === "1" ? 100 : 3;
+      return {
+        status: 200,
+        body: Array.from({ length: count }, (_, i) => ({
+          id: Number(page) * 1000 + i,
+          account: { login: `acct-${i}`, type: "User" },
+          repository_selection: "all",
+        })),
+      };
+    });
+
+    const installations = await Effect.runPromise(
+      listInstallations("fake-jwt").pipe(Effect.provide(layer))
+    );
+
+    expect(pages).toEqual(["1", "2"]);
+    expect(installations).toHaveLength(103);
+  });
+
+  test("listInstallations maps 401 to GitHubApiError", async () => {
+    const layer = mockHttpClient(() => ({
+      status: 401,
+      body: { message: "A JSON web token could not be decoded" },
+    }));
+
+    const result = await Effect.runPromise(
+      Effect.either(listInstallations("bad-jwt").pipe(Effect.provide(layer)))
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left).toMatchObject({ status: 401 });
+    }
+  });
+
+  test("looks up the installation for a repository", async () => {
+    let capturedRequest:
+      | { method: string; url: string; headers: Record<string, string> }
+      | undefined;
+
+    const layer = mockHttpClient((req) => {
+      capturedRequest = req;
+      return {
+        status: 200,
+        body: {
+          id: 222,
+          account: { login: "other-org", type: "Organization" },
+          repository_selection: "all",
+        },
+      };
+    });
+
+    const installation = await Effect.runPromise(
+      getRepositoryInstallation("fake-jwt", "other-org", "repo").pipe(
+        Effect.provide(layer)
+      )
+    );
+
+    expect(capturedRequest!.method).toBe("GET");
+    expect(capturedRequest!.url).toBe(
+      "https://api.github.com/repos/other-org/repo/installation"
+    );
+    expect(capturedRequest!.headers["authorization"]).toBe("Bearer fake-jwt");
+    expect(installation).toEqual({
+      id: "222",
+      account: "other-org",
+      accountType: "Organization",
+      repositorySelection: "all",
+    });
+  });
+
+  test("getRepositoryInstallation maps 404 to GitHubApiError", async () => {
+    const layer = mockHttpClient(() => ({
+      status: 404,
+      body: { message: "Not Found" },
+    }));
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        getRepositoryInstallation("fake-jwt", "acme", "missing").pipe(
+          Effect.provide(layer)
+        )
+      )
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left).toMatchObject({ status: 404 });
+    }
+  });
+
+  test("fetches the app the JWT belongs to", async () => {
+    let capturedUrl: string | undefined;
+    const layer = mockHttpClient((req) => {
+      capturedUrl = req.url;
+      return {
+        status: 200,
+        body: { id: 12345, slug: "my-bot", name: "My Bot", client_id: "Iv1.abc" },
+      };
+    });
+
+    const app = await Effect.runPromise(
+      getApp("fake-jwt").pipe(Effect.provide(layer))
+    );
+
+    expect(capturedUrl).toBe("https://api.github.com/app");
+    expect(app).toEqual({
+      id: "12345",
+      slug: "my-bot",
+      name: "My Bot",
+      clientId: "Iv1.abc",
+    });
+  });
+
+  test("fetches one of the app's installations", async () => {
+    let capturedUrl: string | undefined;
+    const layer = mockHttpClient((req) => {
+      capturedUrl = req.url;
+      return {
+        status: 200,
+        body: {
+          id: 67890,
+          account: { login: "acme", type: "Organization" },
+          repository_selection: "selected",
+        },
+      };
+    });
+
+    const installation = await Effect.runPromise(
+      getInstallation("fake-jwt", "67890").pipe(Effect.provide(layer))
+    );
+
+    expect(capturedUrl).toBe("https://api.github.com/app/installations/67890");
+    expect(installation).toEqual({
+      id: "67890",
+      account: "acme",
+      accountType: "Organization",
+      repositorySelection: "selected",
+    });
+  });
+
+  test("getInstallation maps another app's installation (404) to GitHubApiError", async () => {
+    const layer = mockHttpClient(() => ({
+      status: 404,
+      body: { message: "Not Found" },
+    }));
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        getInstallation("fake-jwt", "1").pipe(Effect.provide(layer))
+      )
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left).toMatchObject({ status: 404 });
+    }
+  });
+
+  test("revokes an installation token with the token itself", async () => {
+    let capturedRequest:
+      | { method: string; url: string; headers: Record<string, string> }
+      | undefined;
+
+    const layer = mockHttpClient((req) => {
+      capturedRequest = req;
+      return { status: 204, body: undefined };
+    });
+
+    await Effect.runPromise(
+      revokeInstallationToken(MOCK_TOKEN).pipe(Effect.provide(layer))
+    );
+
+    expect(capturedRequest!.method).toBe("DELETE");
+    expect(capturedRequest!.url).toBe("https://api.github.com/installation/token");
+    expect(capturedRequest!.headers["authorization"]).toBe(`Bearer ${MOCK_TOKEN}`);
+  });
+
+  test("revokeInstallationToken maps 401 to GitHubApiError", async () => {
+    const layer = mockHttpClient(() => ({
+      status: 401,
+      body: { message: "Bad credentials" },
+    }));
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        revokeInstallationToken(MOCK_TOKEN).pipe(Effect.provide(layer))
+      )
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left).toMatchObject({ status: 401 });
+    }
+  });
+
+  describe("retries", () => {
+    const FAST_RETRIES: RetryPolicy = {
+      maxRetries: 2,
+      initialDelayMs: 1,
+      maxDelayMs: 5,
+      maxRateLimitWaitMs: 1000,
+    };
+    const TOKEN_BODY = { token: MOCK_TOKEN, expires_at: MOCK_EXPIRES };
+
+    const requestWith = (responses: MockResponse[]) => {
+      let calls = 0;
+      const layer = mockHttpClient(
+        () => responses[Math.min(calls++, responses.length - 1)]!
+      );
+      const run = Effect.runPromise(
+        Effect.either(
+          requestInstallationToken("fake-jwt", "67890").pipe(
+            Effect.provide(layer),
+            Effect.provideService(GitHubRetryPolicy, FAST_RETRIES)
+          )
+        )
+      );
+      return run.then((result) => ({ result, calls }));
+    };
+
+    test("retries 5xx responses and network failures", async () => {
+      const { result, calls } = await requestWith([
+        { status: 502, body: { message: "Bad Gateway" } },
+        "network-error",
+        { status: 201, body: TOKEN_BODY },
+      ]);
+
+      expect(result._tag).toBe("Right");
+      expect(calls).toBe(3);
+    });
+
+    test("gives up after the configured number of retries", async () => {
+      const { result, calls } = await requestWith([
+        { status: 503, body: { message: "Service Unavailable" } },
+      ]);
+
+      expect(calls).toBe(3);
+      expect(result._tag).toBe("Left");
+      if (result._tag === "Left") {
+        expect(result.left).toMatchObject({ status: 503 });
+      }
+    });
+
+    test("does not retry other client errors", async () => {
+      const { calls } = await requestWith([
+        { status: 422, body: { message: "Validation Failed" } },
+      ]);
+
+      expect(calls).toBe(1);
+    });
+
+    test("waits out a short secondary rate limit", async () => {
+      const { result, calls } = await requestWith([
+        {
+          status: 429,
+          body: { message: "secondary rate limit" },
+          headers: { "retry-after": "0" },
+        },
+        { status: 201, body: TOKEN_BODY },
+      ]);
+
+      expect(result._tag).toBe("Right");
+      expect(calls).toBe(2);
+    });
+
+    test("reports a long rate limit without waiting for it", async () => {
+      const reset = Math.floor(Date.now() / 1000) + 3600;
+      const { result, calls } = await requestWith([
+        {
+          status: 403,
+          body: { message: "API rate limit exceeded" },
+          headers: {
+            "x-ratelimit-limit": "5000",
+            "x-ratelimit-remaining": "0",
+            "x-ratelimit-reset": String(reset),
+          },
+        },
+      ]);
+
+      expect(calls).toBe(1);
+      expect(result._tag).toBe("Left");
+      if (result._tag === "Left") {
+        expect(result.left).toBeInstanceOf(GitHubApiError);
+        expect((result.left as GitHubApiError).rateLimit).toEqual({
+          retryAt: new Date(reset * 1000),
+          limit: 5000,
+          remaining: 0,
+        });
+      }
+    });
+  });
+
+  describe("parseRateLimit", () => {
+    const NOW = Date.parse("2026-01-01T00:00:00Z");
+
+    test("reads Retry-After in seconds or as a date", () => {
+      expect(parseRateLimit(429, { "retry-after": "30" }, NOW)?.retryAt).toEqual(
+        new Date(NOW + 30_000)
+      );
+      expect(
+        parseRateLimit(
+          403,
+          { "retry-after": "Thu, 01 Jan 2026 00:02:00 GMT" },
+          NOW
+        )?.retryAt
+      ).toEqual(new Date(NOW + 120_000));
+    });
+
+    test("waits a minute for a secondary limit without headers", () => {
+      expect(parseRateLimit(429, {}, NOW)?.retryAt).toEqual(
+        new Date(NOW + 60_000)
+      );
+    });
+
+    test("ignores a 403 that is not a rate limit", () => {
+      expect(
+        parseRateLimit(403, { "x-ratelimit-remaining": "4999" }, NOW)
+      ).toBeUndefined();
+      expect(parseRateLimit(500, { "retry-after": "5" }, NOW)).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import {
+  GITHUB_DOT_COM,
+  isGitHubDotCom,
+  isValidHostname,
+  resolveGitHubHost,
+} from "../src/github-host.ts";
+
+describe("resolveGitHubHost", () => {
+  test("defaults to github.com", () => {
+    expect(resolveGitHubHost({})).toEqual({
+      apiBaseUrl: "https://api.github.com",
+      gitHost: "github.com",
+    });
+    expect(isGitHubDotCom(GITHUB_DOT_COM)).toBe(true);
+  });
+
+  test("derives the GHES API root from the git host", () => {
+    const host = resolveGitHubHost({ gitHost: "ghe.example.com" });
+    expect(host).toEqual({
+      apiBaseUrl: "https://ghe.example.com/api/v3",
+      gitHost: "ghe.example.com",
+    });
+    expect(isGitHubDotCom(host)).toBe(false);
+  });
+
+  test("derives the git host from the API root", () => {
+    expect(
+      resolveGitHubHost({ apiBaseUrl: "https://ghe.example.com/api/v3/" })
+    ).toEqual({
+      apiBaseUrl: "https://ghe.example.com/api/v3",
+      gitHost: "ghe.example.com",
+    });
+    expect(
+      resolveGitHubHost({ apiBaseUrl: "https://api.acme.ghe.com" }).gitHost
+    ).toBe("acme.ghe.com");
+  });
+
+  test("keeps both when configured", () => {
+    expect(
+      resolveGitHubHost({
+        apiBaseUrl: "https://api.internal.example.com/v3",
+        gitHost: "git.example.com",
+      })
+    ).toEqual({
+      apiBaseUrl: "https://api.internal.example.com/v3",
+      gitHost: "git.example.com",
+    });
+  });
+});
+
+describe("isValidHostname", () => {
+  test("accepts host names and rejects URLs", () => {
+    expect(isValidHostname("ghe.example.com")).toBe(true);
+    expect(isValidHostname("https://ghe.example.com")).toBe(false);
+    expect(isValidHostname("ghe.example.com/api")).toBe(false);
+    expect(isValidHostname("")).toBe(false);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, test } from "bun:test";
 import { Effect } from "effect";
 import { generateJwt } from "../src/services/JwtService.ts";
+import { GitHubClock, makeClockSkew } from "../src/services/ClockSkew.ts";
 import { decodeProtectedHeader, decodeJwt, importSPKI, jwtVerify } from "jose";
 import { createPrivateKey, createPublicKey } from "crypto";
 
@@ -62,6 +63,22 @@ describe("JwtService", () => {
     expect(claims.exp!).toBeLessThanOrEqual(now + 600 + 60);
   });
 
+  test("iat and exp follow GitHub's clock", async () => {
+    const clock = makeClockSkew();
+    // GitHub is an hour ahead of this machine
+    clock.observe(new Date(Date.now() + 3600 * 1000).toUTCString());
+
+    const now = Math.floor(Date.now() / 1000);
+    const jwt = await Effect.runPromise(
+      generateJwt(TEST_PEM, APP_ID).pipe(Effect.provideService(GitHubClock, clock))
+    );
+
+    const claims = decodeJwt(jwt);
+    expect(claims.iat!).toBeGreaterThanOrEqual(now + 3600 - 62);
+    expect(claims.iat!).toBeLessThanOrEqual(now + 3600);
+    expect(claims.exp! - claims.iat!).toBe(660);
+  });
+
   test("JWT signature is valid RS256", async () => {
     const jwt = await Effect.runPromise(generateJwt(TEST_PEM, APP_ID));
 
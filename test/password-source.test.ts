@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { Effect } from "effect";
+import { Readable } from "stream";
+import { randomUUID } from "crypto";
+import { rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import {
+  readPassword,
+  readPasswordFromStream,
+  resolvePasswordSource,
+  runPasswordCommand,
+} from "../src/password-source.ts";
+import { PasswordCommandFailed } from "../src/errors.ts";
+
+describe("resolvePasswordSource", () => {
+  test("prompts when nothing is configured", () => {
+    expect(resolvePasswordSource({ env: {} })).toBeUndefined();
+  });
+
+  test("prefers --password-stdin, then the file, then the command", () => {
+    const env = { APPTOKEN_PASSWORD_FILE: "/run/secrets/apptoken" };
+    const passwordCommand = "pass show apptoken";
+
+    expect(
+      resolvePasswordSource({ passwordStdin: true, passwordCommand, env }),
+    ).toEqual({ kind: "stdin" });
+    expect(resolvePasswordSource({ passwordCommand, env })).toEqual({
+      kind: "file",
+      path: "/run/secrets/apptoken",
+    });
+    expect(resolvePasswordSource({ passwordCommand, env: {} })).toEqual({
+      kind: "command",
+      command: passwordCommand,
+    });
+  });
+
+  test("ignores a blank passwordCommand", () => {
+    expect(
+      resolvePasswordSource({ passwordCommand: "  ", env: {} }),
+    ).toBeUndefined();
+  });
+});
+
+describe("readPassword", () => {
+  test("reads stdin up to EOF without the trailing newline", async () => {
+    const password = await Effect.runPromise(
+      readPasswordFromStream(Readable.from(["hunter", "2\n"])),
+    );
+    expect(password).toBe("hunter2");
+  });
+
+  test("takes the command's stdout", async () => {
+    const password = await Effect.runPromise(
+      runPasswordCommand("printf 'from cmd\\n'"),
+    );
+    expect(password).toBe("from cmd");
+  });
+
+  test("reports a failing command with its stderr", async () => {
+    const result = await Effect.runPromise(
+      Effect.either(runPasswordCommand("echo 'vault is sealed' >&2; exit 3")),
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left).toBeInstanceOf(PasswordCommandFailed);
+      expect(result.left.exitCode).toBe(3);
+      expect(result.left.stderr).toContain("vault is sealed");
+    }
+  });
+
+  test("reads a password file", async () => {
+    const path = join(tmpdir(), `apptoken-password-${randomUUID()}`);
+    writeFileSync(path, "s3cret\r\n");
+    try {
+      const password = await Effect.runPromise(
+        readPassword({ kind: "file", path }),
+      );
+      expect(password).toBe("s3cret");
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+
+  test("fails with PasswordFileNotFound for a missing file", async () => {
+    const result = await Effect.runPromise(
+      Effect.either(readPassword({ kind: "file", path: "/nonexistent/pw" })),
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left._tag).toBe("PasswordFileNotFound");
+    }
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { createServer, connect, type Socket } from "net";
+import { getPeerUid } from "../src/services/PeerCredentials.ts";
+
+const supported = process.platform === "linux" || process.platform === "darwin";
+
+describe("getPeerUid", () => {
+  test.if(supported)("reports the UID of the connecting process", async () => {
+    const socketPath = `/tmp/at-peer-test-${process.pid}.sock`;
+    const accepted = new Promise<Socket>((resolve) => {
+      const server = createServer((socket) => {
+        resolve(socket);
+        server.close();
+      });
+      server.listen(socketPath, () => {
+        connect(socketPath);
+      });
+    });
+
+    const socket = await accepted;
+    try {
+      expect(getPeerUid(socket)).toBe(process.getuid!());
+    } finally {
+      socket.destroy();
+    }
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import {
+  findGhRepoArg,
+  findGitCloneUrl,
+  findGitDirectory,
+  parseRepoRef,
+} from "../src/repo-target.ts";
+
+describe("parseRepoRef", () => {
+  test.each([
+    "acme/api",
+    "github.com/acme/api",
+    "https://github.com/acme/api",
+    "https://github.com/acme/api.git",
+    "https://github.com/acme/api/",
+    "git@github.com:acme/api.git",
+    "ssh://git@github.com/acme/api.git",
+    "ssh://git@github.com:22/acme/api",
+  ])("parses %s", (input) => {
+    expect(parseRepoRef(input)).toEqual({ owner: "acme", name: "api" });
+  });
+
+  test.each([
+    "api",
+    "https://gitlab.com/acme/api",
+    "git@gitlab.com:acme/api.git",
+    "gitlab.com/acme/api",
+    "https://github.com/acme/api/tree/main",
+    "acme/api/extra/path",
+  ])("rejects %s", (input) => {
+    expect(parseRepoRef(input)).toBeUndefined();
+  });
+});
+
+describe("findGhRepoArg", () => {
+  test("reads -R, --repo and their attached forms", () => {
+    expect(findGhRepoArg(["pr", "list", "-R", "acme/api"])).toBe("acme/api");
+    expect(findGhRepoArg(["pr", "list", "--repo", "acme/api"])).toBe("acme/api");
+    expect(findGhRepoArg(["pr", "list", "--repo=acme/api"])).toBe("acme/api");
+    expect(findGhRepoArg(["pr", "list", "-Racme/api"])).toBe("acme/api");
+  });
+
+  test("returns undefined without a repo flag", () => {
+    expect(findGhRepoArg(["pr", "list"])).toBeUndefined();
+  });
+});
+
+describe("findGitCloneUrl", () => {
+  test("finds the URL after clone options", () => {
+    expect(
+      findGitCloneUrl([
+        "clone",
+        "--depth",
+        "1",
+        "-b",
+        "main",
+        "--quiet",
+        "https://github.com/acme/api.git",
+        "dir",
+      ])
+    ).toBe("https://github.com/acme/api.git");
+  });
+
+  test("skips global options before the subcommand", () => {
+    expect(
+      findGitCloneUrl(["-c", "core.askPass=", "clone", "git@github.com:acme/api.git"])
+    ).toBe("git@github.com:acme/api.git");
+  });
+
+  test("returns undefined for other commands", () => {
+    expect(findGitCloneUrl(["fetch", "origin"])).toBeUndefined();
+  });
+});
+
+describe("findGitDirectory", () => {
+  test("follows -C flags", () => {
+    expect(findGitDirectory(["-C", "/tmp/repo", "status"])).toBe("/tmp/repo");
+    expect(findGitDirectory(["-C", "/tmp", "-C", "repo", "status"])).toBe("/tmp/repo");
+  });
+
+  test("returns undefined without -C", () => {
+    expect(findGitDirectory(["status"])).toBeUndefined();
+  });
+});
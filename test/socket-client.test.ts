@@ -1,6 +1,6 @@
 import { describe, expect, test, afterEach } from "bun:test";
-import { Effect, Exit, Scope } from "effect";
-import { makeSocketServer } from "../src/services/SocketServer.ts";
+import { Effect } from "effect";
+import { makeDaemonService } from "../src/services/DaemonService.ts";
 import { makeSocketClient } from "../src/services/SocketClient.ts";
 import { makeTokenService } from "../src/services/TokenService.ts";
 import { DaemonNotRunning, SocketError } from "../src/errors.ts";
@@ -44,14 +44,15 @@ describe("SocketClient", () => {
     const socketPath = makeTestSocketPath();
     cleanupPaths.push(socketPath);
 
-    const tokenService = makeMockTokenService();
-    const scope = Effect.runSync(Scope.make());
+    const pidPath = socketPath.replace(/\.sock$/, ".pid");
+    cleanupPaths.push(pidPath);
 
-    await Effect.runPromise(
-      makeSocketServer({ socketPath, tokenService }).pipe(
-        Scope.extend(scope)
-      )
-    );
+    const daemon = makeDaemonService({
+      socketPath,
+      pidPath,
+      tokenService: makeMockTokenService(),
+    });
+    await Effect.runPromise(daemon.start());
 
     const client = makeSocketClient(socketPath);
     const token = await Effect.runPromise(client.requestToken());
@@ -59,21 +60,22 @@ describe("SocketClient", () => {
     expect(token.token).toBe(MOCK_TOKEN);
     expect(token.expiresAt).toBeInstanceOf(Date);
 
-    await Effect.runPromise(Scope.close(scope, Exit.void));
+    await Effect.runPromise(daemon.stop());
   });
 
   test("ping connects to server and succeeds", async () => {
     const socketPath = makeTestSocketPath();
     cleanupPaths.push(socketPath);
 
-    const tokenService = makeMockTokenService();
-    const scope = Effect.runSync(Scope.make());
+    const pidPath = socketPath.replace(/\.sock$/, ".pid");
+    cleanupPaths.push(pidPath);
 
-    await Effect.runPromise(
-      makeSocketServer({ socketPath, tokenService }).pipe(
-        Scope.extend(scope)
-      )
-    );
+    const daemon = makeDaemonService({
+      socketPath,
+      pidPath,
+      tokenService: makeMockTokenService(),
+    });
+    await Effect.runPromise(daemon.start());
 
     const client = makeSocketClient(socketPath);
     await Effect.runPromise(client.ping());
@@ -81,7 +83,7 @@ describe("SocketClient", () => {
     // If we get here without error, ping succeeded
     expect(true).toBe(true);
 
-    await Effect.runPromise(Scope.close(scope, Exit.void));
+    await Effect.runPromise(daemon.stop());
   });
 
   test("returns DaemonNotRunning when socket does not exist", async () => {
@@ -0,0 +1,169 @@
+import { describe, expect, test } from "bun:test";
+import { Effect } from "effect";
+import {
+  decodeResponse,
+  handleMessage,
+  PROTOCOL_VERSION,
+  toErrorPayload,
+} from "../src/services/SocketProtocol.ts";
+import { makeDaemonService } from "../src/services/DaemonService.ts";
+import { makeSocketClient } from "../src/services/SocketClient.ts";
+import { makeTokenService } from "../src/services/TokenService.ts";
+import {
+  DaemonError,
+  GitHubApiError,
+  InvalidPassword,
+  SocketError,
+} from "../src/errors.ts";
+
+const request = (body: object) =>
+  JSON.stringify({ v: PROTOCOL_VERSION, id: "req-1", ...body });
+
+const pong = () => Effect.succeed({ pong: true as const });
+
+describe("handleMessage", () => {
+  test("echoes the version and request id", async () => {
+    const handled = await Effect.runPromise(
+      handleMessage(request({ action: "ping" }), pong)
+    );
+
+    expect(handled.request?.action).toBe("ping");
+    expect(JSON.parse(handled.response)).toEqual({
+      v: PROTOCOL_VERSION,
+      id: "req-1",
+      ok: true,
+      pong: true,
+    });
+  });
+
+  test("rejects requests from another protocol version", async () => {
+    const handled = await Effect.runPromise(
+      handleMessage(JSON.stringify({ v: 99, id: "x", action: "ping" }), pong)
+    );
+
+    expect(handled.request).toBeUndefined();
+    expect(handled.error?._tag).toBe("DaemonError");
+    expect(JSON.parse(handled.response)).toMatchObject({ id: "x", ok: false });
+  });
+
+  test("rejects requests missing required fields", async () => {
+    const handled = await Effect.runPromise(
+      handleMessage(request({ action: "addProfile", profile: "work" }), pong)
+    );
+
+    expect(handled.request).toBeUndefined();
+    expect(handled.error).toMatchObject({ _tag: "DaemonError" });
+  });
+
+  test("encodes handler failures as tagged payloads", async () => {
+    const handled = await Effect.runPromise(
+      handleMessage(request({ action: "getToken" }), () =>
+        Effect.fail(new GitHubApiError({ status: 403, message: "Forbidden" }))
+      )
+    );
+
+    expect(JSON.parse(handled.response).error).toEqual({
+      _tag: "GitHubApiError",
+      status: 403,
+      message: "Forbidden",
+    });
+  });
+
+  test("reports defects instead of dropping the connection", async () => {
+    const handled = await Effect.runPromise(
+      handleMessage(request({ action: "ping" }), () => Effect.die("boom"))
+    );
+
+    expect(handled.error).toEqual({ _tag: "DaemonError", message: "boom" });
+  });
+});
+
+describe("decodeResponse", () => {
+  const ping = { id: "req-1", action: "ping" as const };
+
+  test("rebuilds tagged errors", async () => {
+    const raw = JSON.stringify({
+      v: PROTOCOL_VERSION,
+      id: "req-1",
+      ok: false,
+      error: toErrorPayload(new InvalidPassword()),
+    });
+
+    const result = await Effect.runPromise(
+      Effect.either(decodeResponse(raw, ping))
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left).toBeInstanceOf(InvalidPassword);
+    }
+  });
+
+  test("wraps unknown errors in DaemonError", () => {
+    expect(toErrorPayload(new Error("disk full"))).toEqual({
+      _tag: "DaemonError",
+      message: "disk full",
+    });
+  });
+
+  test("fails with SocketError for another version or request id", async () => {
+    for (const response of [
+      { v: PROTOCOL_VERSION + 1, id: "req-1", ok: true, pong: true },
+      { v: PROTOCOL_VERSION, id: "req-2", ok: true, pong: true },
+      { ok: false, error: "internal error" },
+    ]) {
+      const result = await Effect.runPromise(
+        Effect.either(decodeResponse(JSON.stringify(response), ping))
+      );
+
+      expect(result._tag).toBe("Left");
+      if (result._tag === "Left") {
+        expect(result.left).toBeInstanceOf(SocketError);
+      }
+    }
+  });
+});
+
+describe("SocketClient over the protocol", () => {
+  test("receives the daemon's GitHubApiError with its status", async () => {
+    const socketPath = `/tmp/at-protocol-test-${process.pid}.sock`;
+    const tokenService = makeTokenService({
+      pem: "test-pem",
+      appId: "12345",
+      installationId: "67890",
+      generateJwt: () => Effect.succeed("mock-jwt"),
+      requestInstallationToken: () =>
+        Effect.fail(new GitHubApiError({ status: 401, message: "Bad JWT" })),
+    });
+    const daemon = makeDaemonService({
+      socketPath,
+      pidPath: `/tmp/at-protocol-test-${process.pid}.pid`,
+      tokenService,
+    });
+
+    await Effect.runPromise(daemon.start());
+
+    try {
+      const client = makeSocketClient(socketPath);
+      const result = await Effect.runPromise(
+        Effect.either(client.requestToken())
+      );
+
+      expect(result._tag).toBe("Left");
+      if (result._tag === "Left") {
+        expect(result.left).toBeInstanceOf(GitHubApiError);
+        expect(result.left).toMatchObject({ status: 401, message: "Bad JWT" });
+      }
+
+      const unsupported = await Effect.runPromise(
+        Effect.either(client.lock())
+      );
+      expect(unsupported._tag).toBe("Left");
+      if (unsupported._tag === "Left") {
+        expect(unsupported.left).toBeInstanceOf(DaemonError);
+      }
+    } finally {
+      await Effect.runPromise(daemon.stop());
+    }
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { formatToken, tokenToJson } from "../src/token-output.ts";
+
+const TOKEN = {
+  token: "ghs_abc'def",
+  expiresAt: new Date("2026-01-28T12:00:00Z"),
+  permissions: { contents: "read" },
+  repositories: ["acme/api"],
+};
+
+describe("formatToken", () => {
+  test("env prints NAME=value lines", () => {
+    const output = formatToken(TOKEN, "env");
+    expect(output).toContain("GITHUB_TOKEN=ghs_abc'def");
+    expect(output).toContain("GH_TOKEN=ghs_abc'def");
+    expect(output).toContain("APPTOKEN_EXPIRES_AT=2026-01-28T12:00:00.000Z");
+  });
+
+  test("shell prints quoted export statements", () => {
+    const output = formatToken(TOKEN, "shell");
+    expect(output).toContain(`export GITHUB_TOKEN='ghs_abc'\\''def'`);
+  });
+
+  test("dotenv prints double-quoted values", () => {
+    const output = formatToken(TOKEN, "dotenv");
+    expect(output).toContain(`GH_TOKEN="ghs_abc'def"`);
+  });
+});
+
+describe("tokenToJson", () => {
+  test("includes token metadata", () => {
+    const parsed = JSON.parse(tokenToJson(TOKEN));
+    expect(parsed).toEqual({
+      token: "ghs_abc'def",
+      expiresAt: "2026-01-28T12:00:00.000Z",
+      permissions: { contents: "read" },
+      repositories: ["acme/api"],
+    });
+  });
+
+  test("uses null for unknown permissions and repositories", () => {
+    const parsed = JSON.parse(
+      tokenToJson({ token: "ghs_x", expiresAt: TOKEN.expiresAt })
+    );
+    expect(parsed.permissions).toBeNull();
+    expect(parsed.repositories).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+import { Effect, Fiber, TestClock, TestContext } from "effect";
+import { GitHubApiError } from "../src/errors.ts";
+import { makeTokenRefresher } from "../src/services/TokenRefresher.ts";
+import { makeTokenService } from "../src/services/TokenService.ts";
+
+const OPTIONS = {
+  leadMs: 10 * 60 * 1000,
+  jitterMs: 60 * 1000,
+  checkIntervalMs: 30 * 1000,
+  initialBackoffMs: 1000,
+  maxBackoffMs: 4000,
+  random: () => 0,
+};
+
+function makeService(
+  requestInstallationToken: () => Effect.Effect<
+    { token: string; expiresAt: Date },
+    Error
+  >
+) {
+  return makeTokenService({
+    pem: "test-pem",
+    appId: "12345",
+    installationId: "67890",
+    generateJwt: () => Effect.succeed("mock-jwt"),
+    requestInstallationToken,
+  });
+}
+
+describe("TokenRefresher", () => {
+  test("renews a token that is about to expire before anyone asks", async () => {
+    let calls = 0;
+    const service = makeService(() => {
+      calls++;
+      return Effect.succeed({
+        token: `ghs_${calls}`,
+        // the first token is due for renewal, the second is not
+        expiresAt: new Date(Date.now() + (calls === 1 ? 8 : 60) * 60 * 1000),
+      });
+    });
+
+    const refresher = makeTokenRefresher(() => [service], OPTIONS);
+
+    await Effect.runPromise(
+      Effect.gen(function* () {
+        yield* service.getInstallationToken();
+        const fiber = yield* Effect.fork(refresher.run);
+        yield* TestClock.adjust("1 second");
+        yield* Fiber.interrupt(fiber);
+      }).pipe(Effect.provide(TestContext.TestContext))
+    );
+
+    const token = await Effect.runPromise(service.getInstallationToken());
+    expect(calls).toBe(2);
+    expect(token.token).toBe("ghs_2");
+    expect(refresher.state().status).toBe("ok");
+    expect(typeof refresher.state().lastRefreshAt).toBe("string");
+  });
+
+  test("backs off exponentially while renewal fails, then recovers", async () => {
+    let calls = 0;
+    let failing = false;
+    const service = makeService(() => {
+      calls++;
+      if (failing) {
+        return Effect.fail(new Error("GitHub unavailable"));
+      }
+      return Effect.succeed({
+        token: `ghs_${calls}`,
+        expiresAt: new Date(Date.now() + 8 * 60 * 1000),
+      });
+    });
+
+    const refresher = makeTokenRefresher(() => [service], OPTIONS);
+
+    await Effect.runPromise(
+      Effect.gen(function* () {
+        yield* service.getInstallationToken();
+        failing = true;
+
+        const fiber = yield* Effect.fork(refresher.run);
+        yield* TestClock.adjust(0);
+        expect(calls).toBe(2);
+        expect(refresher.state().status).toBe("retrying");
+        expect(refresher.state().lastError).toContain("GitHub unavailable");
+
+        // Retries after 1s, then 2s, then 4s (capped)
+        yield* TestClock.adjust("1 second");
+        expect(calls).toBe(3);
+        yield* TestClock.adjust("2 seconds");
+        expect(calls).toBe(4);
+        expect(refresher.state().consecutiveFailures).toBe(3);
+
+        failing = false;
+        yield* TestClock.adjust("4 seconds");
+        expect(calls).toBe(5);
+        expect(refresher.state().status).toBe("ok");
+        expect(refresher.state().consecutiveFailures).toBe(0);
+
+        yield* Fiber.interrupt(fiber);
+      }).pipe(Effect.provide(TestContext.TestContext))
+    );
+
+    // The renewed token replaces the one served during the failures
+    const token = await Effect.runPromise(service.getInstallationToken());
+    expect(token.token).toBe("ghs_5");
+  });
+
+  test("reports the last error the way the CLI would print it", async () => {
+    let failing = false;
+    const service = makeService(() =>
+      failing
+        ? Effect.fail(
+            new GitHubApiError({ status: 0, message: "connect ECONNRESET" })
+          )
+        : Effect.succeed({
+            token: "ghs_1",
+            expiresAt: new Date(Date.now() + 8 * 60 * 1000),
+          })
+    );
+
+    const refresher = makeTokenRefresher(() => [service], OPTIONS);
+
+    await Effect.runPromise(
+      Effect.gen(function* () {
+        yield* service.getInstallationToken();
+        failing = true;
+
+        const fiber = yield* Effect.fork(refresher.run);
+        yield* TestClock.adjust(0);
+        expect(refresher.state().lastError).toBe(
+          "Could not reach GitHub (connect ECONNRESET). Check your network connection and try again."
+        );
+
+        yield* Fiber.interrupt(fiber);
+      }).pipe(Effect.provide(TestContext.TestContext))
+    );
+  });
+});
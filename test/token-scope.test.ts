@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import { parseTokenScope } from "../src/token-scope.ts";
+
+describe("parseTokenScope", () => {
+  test("returns no scope when no flags are given", () => {
+    const result = parseTokenScope([], []);
+    expect(result.scope).toBeUndefined();
+    expect(result.error).toBeUndefined();
+  });
+
+  test("maps owner/name repositories to repository names", () => {
+    const result = parseTokenScope(["acme/api", "acme/web", "acme/api"], []);
+    expect(result.scope).toEqual({ repositories: ["api", "web"] });
+    expect(result.owner).toBe("acme");
+  });
+
+  test("parses name=level permissions", () => {
+    const result = parseTokenScope([], ["contents=read", "pull_requests=write"]);
+    expect(result.scope).toEqual({
+      permissions: { contents: "read", pull_requests: "write" },
+    });
+  });
+
+  test("rejects repositories without an owner", () => {
+    const result = parseTokenScope(["api"], []);
+    expect(result.error).toContain("owner/name");
+  });
+
+  test("rejects repositories from different owners", () => {
+    const result = parseTokenScope(["acme/api", "other/web"], []);
+    expect(result.error).toContain("same owner");
+  });
+
+  test("rejects unknown permission levels", () => {
+    const result = parseTokenScope([], ["contents=everything"]);
+    expect(result.error).toContain("contents=everything");
+  });
+});
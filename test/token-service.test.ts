@@ -1,6 +1,10 @@
 import { describe, expect, test } from "bun:test";
 import { Effect } from "effect";
-import { makeTokenService } from "../src/services/TokenService.ts";
+import {
+  makeTokenService,
+  revokeIssuedTokens,
+  type TokenScope,
+} from "../src/services/TokenService.ts";
 
 const MOCK_PEM = "test-pem-content";
 const MOCK_APP_ID = "12345";
@@ -16,7 +20,8 @@ function makeMockDeps(overrides?: {
   ) => Effect.Effect<string, Error>;
   requestInstallationToken?: (
     jwt: string,
-    installationId: string
+    installationId: string,
+    scope?: TokenScope
   ) => Effect.Effect<{ token: string; expiresAt: Date }, Error>;
 }) {
   const calls = {
@@ -24,6 +29,7 @@ function makeMockDeps(overrides?: {
     requestInstallationToken: [] as Array<{
       jwt: string;
       installationId: string;
+      scope?: TokenScope | undefined;
     }>,
   };
 
@@ -36,8 +42,8 @@ function makeMockDeps(overrides?: {
 
   const requestInstallationToken =
     overrides?.requestInstallationToken ??
-    ((jwt: string, installationId: string) => {
-      calls.requestInstallationToken.push({ jwt, installationId });
+    ((jwt: string, installationId: string, scope?: TokenScope) => {
+      calls.requestInstallationToken.push({ jwt, installationId, scope });
       return Effect.succeed({ token: MOCK_TOKEN, expiresAt: MOCK_EXPIRES });
     });
 
@@ -172,4 +178,626 @@ describe("TokenService", () => {
 
     expect(result._tag).toBe("Failure");
   });
+
+  test("passes the requested scope to requestInstallationToken", async () => {
+    const deps = makeMockDeps();
+    const scope: TokenScope = {
+      repositories: ["apptoken"],
+      permissions: { contents: "read" },
+    };
+
+    const service = makeTokenService({
+      pem: MOCK_PEM,
+      appId: MOCK_APP_ID,
+      installationId: MOCK_INSTALLATION_ID,
+      generateJwt: deps.generateJwt,
+      requestInstallationToken: deps.requestInstallationToken,
+    });
+
+    await Effect.runPromise(service.getInstallationToken(scope));
+
+    expect(deps.calls.requestInstallationToken[0]!.scope).toEqual(scope);
+  });
+
+  test("caches each distinct scope separately", async () => {
+    let callCount = 0;
+    const deps = makeMockDeps({
+      requestInstallationToken: () => {
+        callCount++;
+        return Effect.succeed({
+          token: `ghs_token_${callCount}`,
+          expiresAt: MOCK_EXPIRES,
+        });
+      },
+    });
+
+    const service = makeTokenService({
+      pem: MOCK_PEM,
+      appId: MOCK_APP_ID,
+      installationId: MOCK_INSTALLATION_ID,
+      generateJwt: deps.generateJwt,
+      requestInstallationToken: deps.requestInstallationToken,
+    });
+
+    const full = await Effect.runPromise(service.getInstallationToken());
+    const readOnly = await Effect.runPromise(
+      service.getInstallationToken({ permissions: { contents: "read" } })
+    );
+    const readOnlyAgain = await Effect.runPromise(
+      service.getInstallationToken({ permissions: { contents: "read" } })
+    );
+
+    expect(callCount).toBe(2);
+    expect(readOnly.token).not.toBe(full.token);
+    expect(readOnlyAgain.token).toBe(readOnly.token);
+  });
+
+  test("treats scopes with the same entries in a different order as equal", async () => {
+    const deps = makeMockDeps();
+
+    const service = makeTokenService({
+      pem: MOCK_PEM,
+      appId: MOCK_APP_ID,
+      installationId: MOCK_INSTALLATION_ID,
+      generateJwt: deps.generateJwt,
+      requestInstallationToken: deps.requestInstallationToken,
+    });
+
+    await Effect.runPromise(
+      service.getInstallationToken({
+        repositories: ["a", "b"],
+        permissions: { contents: "read", issues: "write" },
+      })
+    );
+    await Effect.runPromise(
+      service.getInstallationToken({
+        repositories: ["b", "a"],
+        permissions: { issues: "write", contents: "read" },
+      })
+    );
+
+    expect(deps.calls.requestInstallationToken).toHaveLength(1);
+  });
+
+  test("refreshes when the cached token expires sooner than minRemainingMs", async () => {
+    let callCount = 0;
+    const deps = makeMockDeps({
+      requestInstallationToken: () => {
+        callCount++;
+        return Effect.succeed({
+          token: `ghs_token_${callCount}`,
+          // 20 minutes left: fine for the default buffer
+          expiresAt: new Date(Date.now() + 20 * 60 * 1000),
+        });
+      },
+    });
+
+    const service = makeTokenService({
+      pem: MOCK_PEM,
+      appId: MOCK_APP_ID,
+      installationId: MOCK_INSTALLATION_ID,
+      generateJwt: deps.generateJwt,
+      requestInstallationToken: deps.requestInstallationToken,
+    });
+
+    await Effect.runPromise(service.getInstallationToken());
+    const cached = await Effect.runPromise(service.getInstallationToken());
+    const forced = await Effect.runPromise(
+      service.getInstallationToken(undefined, { minRemainingMs: 30 * 60 * 1000 })
+    );
+
+    expect(cached.token).toBe("ghs_token_1");
+    expect(forced.token).toBe("ghs_token_2");
+  });
+
+  test("mints the token for the requested installation", async () => {
+    const deps = makeMockDeps();
+
+    const service = makeTokenService({
+      pem: MOCK_PEM,
+      appId: MOCK_APP_ID,
+      installationId: MOCK_INSTALLATION_ID,
+      generateJwt: deps.generateJwt,
+      requestInstallationToken: deps.requestInstallationToken,
+    });
+
+    await Effect.runPromise(service.getInstallationToken());
+    await Effect.runPromise(
+      service.getInstallationToken(undefined, { installationId: "11111" })
+    );
+
+    expect(
+      deps.calls.requestInstallationToken.map((c) => c.installationId)
+    ).toEqual([MOCK_INSTALLATION_ID, "11111"]);
+  });
+
+  describe("resolveInstallation", () => {
+    const installation = {
+      id: "11111",
+      account: "other-org",
+      accountType: "Organization",
+      repositorySelection: "all",
+    };
+
+    test("looks up the repository's installation once and caches it", async () => {
+      const deps = makeMockDeps();
+      const lookups: Array<{ jwt: string; owner: string; repo: string }> = [];
+
+      const service = makeTokenService({
+        pem: MOCK_PEM,
+        appId: MOCK_APP_ID,
+        installationId: MOCK_INSTALLATION_ID,
+        generateJwt: deps.generateJwt,
+        requestInstallationToken: deps.requestInstallationToken,
+        requestRepositoryInstallation: (jwt, owner, repo) => {
+          lookups.push({ jwt, owner, repo });
+          return Effect.succeed(installation);
+        },
+      });
+
+      const first = await Effect.runPromise(
+        service.resolveInstallation("other-org", "repo")
+      );
+      const second = await Effect.runPromise(
+        service.resolveInstallation("Other-Org", "Repo")
+      );
+
+      expect(first).toEqual(installation);
+      expect(second).toEqual(installation);
+      expect(lookups).toEqual([
+        { jwt: MOCK_JWT, owner: "other-org", repo: "repo" },
+      ]);
+    });
+
+    test("does not cache failed lookups", async () => {
+      const deps = makeMockDeps();
+      let attempts = 0;
+
+      const service = makeTokenService({
+        pem: MOCK_PEM,
+        appId: MOCK_APP_ID,
+        installationId: MOCK_INSTALLATION_ID,
+        generateJwt: deps.generateJwt,
+        requestInstallationToken: deps.requestInstallationToken,
+        requestRepositoryInstallation: () => {
+          attempts++;
+          return Effect.fail(new Error("Not Found"));
+        },
+      });
+
+      await Effect.runPromise(
+        Effect.either(service.resolveInstallation("acme", "repo"))
+      );
+      const result = await Effect.runPromise(
+        Effect.either(service.resolveInstallation("acme", "repo"))
+      );
+
+      expect(result._tag).toBe("Left");
+      expect(attempts).toBe(2);
+    });
+
+    test("falls back to the configured installation without a lookup", async () => {
+      const deps = makeMockDeps();
+
+      const service = makeTokenService({
+        pem: MOCK_PEM,
+        appId: MOCK_APP_ID,
+        installationId: MOCK_INSTALLATION_ID,
+        generateJwt: deps.generateJwt,
+        requestInstallationToken: deps.requestInstallationToken,
+      });
+
+      const result = await Effect.runPromise(
+        service.resolveInstallation("acme", "repo")
+      );
+
+      expect(result.id).toBe(MOCK_INSTALLATION_ID);
+      expect(deps.calls.generateJwt).toHaveLength(0);
+    });
+  });
+
+  describe("revokeTokens", () => {
+    test("revokes every issued token, including replaced ones, and clears the cache", async () => {
+      let callCount = 0;
+      const revoked: string[] = [];
+      const deps = makeMockDeps({
+        requestInstallationToken: () => {
+          callCount++;
+          return Effect.succeed({
+            token: `ghs_token_${callCount}`,
+            expiresAt: new Date(Date.now() + 20 * 60 * 1000),
+          });
+        },
+      });
+
+      const service = makeTokenService({
+        pem: MOCK_PEM,
+        appId: MOCK_APP_ID,
+        installationId: MOCK_INSTALLATION_ID,
+        generateJwt: deps.generateJwt,
+        requestInstallationToken: deps.requestInstallationToken,
+        revokeInstallationToken: (token) => {
+          revoked.push(token);
+          return Effect.void;
+        },
+      });
+
+      await Effect.runPromise(service.getInstallationToken());
+      // Forces a refresh that replaces ghs_token_1 in the cache
+      await Effect.runPromise(
+        service.getInstallationToken(undefined, { minRemainingMs: 30 * 60 * 1000 })
+      );
+
+      const count = await Effect.runPromise(service.revokeTokens());
+      const next = await Effect.runPromise(service.getInstallationToken());
+      const again = await Effect.runPromise(service.revokeTokens());
+
+      expect(count).toBe(2);
+      expect(revoked.slice(0, 2)).toEqual(["ghs_token_1", "ghs_token_2"]);
+      expect(next.token).toBe("ghs_token_3");
+      expect(again).toBe(1);
+    });
+
+    test("keeps tokens that failed to revoke for the next attempt", async () => {
+      let fail = true;
+      const attempts: string[] = [];
+      const deps = makeMockDeps();
+
+      const service = makeTokenService({
+        pem: MOCK_PEM,
+        appId: MOCK_APP_ID,
+        installationId: MOCK_INSTALLATION_ID,
+        generateJwt: deps.generateJwt,
+        requestInstallationToken: deps.requestInstallationToken,
+        revokeInstallationToken: (token) => {
+          attempts.push(token);
+          return fail ? Effect.fail(new Error("network down")) : Effect.void;
+        },
+      });
+
+      await Effect.runPromise(service.getInstallationToken());
+
+      const first = await Effect.runPromise(Effect.either(service.revokeTokens()));
+      fail = false;
+      const second = await Effect.runPromise(service.revokeTokens());
+
+      expect(first._tag).toBe("Left");
+      expect(second).toBe(1);
+      expect(attempts).toEqual([MOCK_TOKEN, MOCK_TOKEN]);
+    });
+
+    test("release hands over the unexpired tokens and forgets them", async () => {
+      let callCount = 0;
+      const revoked: string[] = [];
+      const service = makeTokenService({
+        pem: MOCK_PEM,
+        appId: MOCK_APP_ID,
+        installationId: MOCK_INSTALLATION_ID,
+        generateJwt: () => Effect.succeed(MOCK_JWT),
+        requestInstallationToken: () => {
+          callCount++;
+          // The first token has already expired when it arrives
+          const lifetime = callCount === 1 ? -1000 : 60 * 60 * 1000;
+          return Effect.succeed({
+            token: `ghs_token_${callCount}`,
+            expiresAt: new Date(Date.now() + lifetime),
+          });
+        },
+        revokeInstallationToken: (token) => {
+          revoked.push(token);
+          return Effect.void;
+        },
+      });
+
+      await Effect.runPromise(service.getInstallationToken());
+      await Effect.runPromise(service.getInstallationToken());
+
+      const released = await Effect.runPromise(service.release());
+
+      expect([...released.tokens.keys()]).toEqual(["ghs_token_2"]);
+      expect(await Effect.runPromise(service.revokeTokens())).toBe(0);
+      expect(await Effect.runPromise(revokeIssuedTokens(released))).toBe(1);
+      expect(revoked).toEqual(["ghs_token_2"]);
+      expect(released.tokens.size).toBe(0);
+    });
+  });
+
+  test("keeps serving a token inside the refresh buffer when renewal fails", async () => {
+    let callCount = 0;
+    const deps = makeMockDeps({
+      requestInstallationToken: () => {
+        callCount++;
+        if (callCount > 1) {
+          return Effect.fail(new Error("GitHub unavailable"));
+        }
+        return Effect.succeed({
+          token: "ghs_stale",
+          // inside the 5 minute buffer, but not yet expired
+          expiresAt: new Date(Date.now() + 2 * 60 * 1000),
+        });
+      },
+    });
+
+    const service = makeTokenService({
+      pem: MOCK_PEM,
+      appId: MOCK_APP_ID,
+      installationId: MOCK_INSTALLATION_ID,
+      generateJwt: deps.generateJwt,
+      requestInstallationToken: deps.requestInstallationToken,
+    });
+
+    await Effect.runPromise(service.getInstallationToken());
+    const served = await Effect.runPromise(service.getInstallationToken());
+    const tooShort = await Effect.runPromise(
+      Effect.either(
+        service.getInstallationToken(undefined, { minRemainingMs: 10 * 60 * 1000 })
+      )
+    );
+
+    expect(served.token).toBe("ghs_stale");
+    expect(tooShort._tag).toBe("Left");
+  });
+
+  describe("refreshExpiring", () => {
+    test("renews only tokens expiring within the window, keeping their scope", async () => {
+      const deps = makeMockDeps({
+        requestInstallationToken: (_jwt, installationId, scope) => {
+          deps.calls.requestInstallationToken.push({
+            jwt: _jwt,
+            installationId,
+            scope,
+          });
+          const soon = scope?.repositories?.[0] === "api";
+          return Effect.succeed({
+            token: `ghs_${deps.calls.requestInstallationToken.length}`,
+            expiresAt: new Date(
+              Date.now() + (soon ? 8 : 50) * 60 * 1000
+            ),
+          });
+        },
+      });
+
+      const service = makeTokenService({
+        pem: MOCK_PEM,
+        appId: MOCK_APP_ID,
+        installationId: MOCK_INSTALLATION_ID,
+        generateJwt: deps.generateJwt,
+        requestInstallationToken: deps.requestInstallationToken,
+      });
+
+      await Effect.runPromise(
+        service.getInstallationToken({ repositories: ["api"] })
+      );
+      await Effect.runPromise(service.getInstallationToken());
+
+      const refreshed = await Effect.runPromise(
+        service.refreshExpiring(10 * 60 * 1000)
+      );
+      const served = await Effect.runPromise(
+        service.getInstallationToken({ repositories: ["api"] })
+      );
+
+      expect(refreshed).toBe(1);
+      expect(deps.calls.requestInstallationToken[2]!.scope).toEqual({
+        repositories: ["api"],
+      });
+      expect(served.token).toBe("ghs_3");
+    });
+
+    test("renews the remaining tokens when one renewal fails", async () => {
+      const deps = makeMockDeps({
+        requestInstallationToken: (_jwt, installationId, scope) => {
+          deps.calls.requestInstallationToken.push({
+            jwt: _jwt,
+            installationId,
+            scope,
+          });
+          const n = deps.calls.requestInstallationToken.length;
+          if (n > 2 && scope?.repositories?.[0] === "api") {
+            return Effect.fail(new Error("Bad Gateway"));
+          }
+          return Effect.succeed({
+            token: `ghs_${n}`,
+            expiresAt: new Date(Date.now() + 8 * 60 * 1000),
+          });
+        },
+      });
+
+      const service = makeTokenService({
+        pem: MOCK_PEM,
+        appId: MOCK_APP_ID,
+        installationId: MOCK_INSTALLATION_ID,
+        generateJwt: deps.generateJwt,
+        requestInstallationToken: deps.requestInstallationToken,
+      });
+
+      await Effect.runPromise(
+        service.getInstallationToken({ repositories: ["api"] })
+      );
+      await Effect.runPromise(service.getInstallationToken());
+
+      const result = await Effect.runPromise(
+        Effect.either(service.refreshExpiring(10 * 60 * 1000))
+      );
+      const kept = await Effect.runPromise(
+        service.getInstallationToken({ repositories: ["api"] })
+      );
+      const renewed = await Effect.runPromise(service.getInstallationToken());
+
+      expect(result._tag).toBe("Left");
+      if (result._tag === "Left") {
+        expect(result.left.message).toBe("Bad Gateway");
+      }
+      expect(deps.calls.requestInstallationToken).toHaveLength(4);
+      expect(kept.token).toBe("ghs_1");
+      expect(renewed.token).toBe("ghs_4");
+    });
+
+    test("does nothing when no token is due", async () => {
+      const deps = makeMockDeps();
+
+      const service = makeTokenService({
+        pem: MOCK_PEM,
+        appId: MOCK_APP_ID,
+        installationId: MOCK_INSTALLATION_ID,
+        generateJwt: deps.generateJwt,
+        requestInstallationToken: deps.requestInstallationToken,
+      });
+
+      await Effect.runPromise(service.getInstallationToken());
+      const refreshed = await Effect.runPromise(
+        service.refreshExpiring(10 * 60 * 1000)
+      );
+
+      expect(refreshed).toBe(0);
+      expect(deps.calls.generateJwt).toHaveLength(1);
+    });
+  });
+
+  describe("concurrent refreshes", () => {
+    const CONCURRENCY = 20;
+
+    // Resolves only once every caller has had a chance to ask
+    const slowly = <A, E>(effect: Effect.Effect<A, E>) =>
+      Effect.zipRight(Effect.sleep("20 millis"), effect);
+
+    test("makes one upstream call for concurrent callers", async () => {
+      let calls = 0;
+      const deps = makeMockDeps({
+        requestInstallationToken: () => {
+          calls++;
+          return slowly(
+            Effect.succeed({ token: MOCK_TOKEN, expiresAt: MOCK_EXPIRES })
+          );
+        },
+      });
+
+      const service = makeTokenService({
+        pem: MOCK_PEM,
+        appId: MOCK_APP_ID,
+        installationId: MOCK_INSTALLATION_ID,
+        generateJwt: deps.generateJwt,
+        requestInstallationToken: deps.requestInstallationToken,
+      });
+
+      const tokens = await Effect.runPromise(
+        Effect.all(
+          Array.from({ length: CONCURRENCY }, () =>
+            service.getInstallationToken()
+          ),
+          { concurrency: "unbounded" }
+        )
+      );
+
+      expect(calls).toBe(1);
+      expect(deps.calls.generateJwt).toHaveLength(1);
+      expect(tokens.every((token) => token.token === MOCK_TOKEN)).toBe(true);
+    });
+
+    test("shares a failed refresh with every waiter", async () => {
+      let calls = 0;
+      const deps = makeMockDeps({
+        requestInstallationToken: () => {
+          calls++;
+          return slowly(Effect.fail(new Error("GitHub unavailable")));
+        },
+      });
+
+      const service = makeTokenService({
+        pem: MOCK_PEM,
+        appId: MOCK_APP_ID,
+        installationId: MOCK_INSTALLATION_ID,
+        generateJwt: deps.generateJwt,
+        requestInstallationToken: deps.requestInstallationToken,
+      });
+
+      const results = await Effect.runPromise(
+        Effect.all(
+          Array.from({ length: CONCURRENCY }, () =>
+            Effect.either(service.getInstallationToken())
+          ),
+          { concurrency: "unbounded" }
+        )
+      );
+
+      expect(calls).toBe(1);
+      expect(results.every((result) => result._tag === "Left")).toBe(true);
+
+      // The failure is not remembered: the next caller tries again
+      await Effect.runPromise(Effect.either(service.getInstallationToken()));
+      expect(calls).toBe(2);
+    });
+
+    test("coalesces callers separately per scope", async () => {
+      const deps = makeMockDeps({
+        requestInstallationToken: (jwt, installationId, scope) => {
+          deps.calls.requestInstallationToken.push({
+            jwt,
+            installationId,
+            scope,
+          });
+          return slowly(
+            Effect.succeed({ token: MOCK_TOKEN, expiresAt: MOCK_EXPIRES })
+          );
+        },
+      });
+
+      const service = makeTokenService({
+        pem: MOCK_PEM,
+        appId: MOCK_APP_ID,
+        installationId: MOCK_INSTALLATION_ID,
+        generateJwt: deps.generateJwt,
+        requestInstallationToken: deps.requestInstallationToken,
+      });
+
+      const scopes = [undefined, { repositories: ["api"] }];
+      await Effect.runPromise(
+        Effect.all(
+          Array.from({ length: CONCURRENCY }, (_, i) =>
+            service.getInstallationToken(scopes[i % 2])
+          ),
+          { concurrency: "unbounded" }
+        )
+      );
+
+      expect(deps.calls.requestInstallationToken).toHaveLength(2);
+    });
+
+    test("joins a background refresh already in flight", async () => {
+      let calls = 0;
+      const deps = makeMockDeps({
+        requestInstallationToken: () => {
+          calls++;
+          return slowly(
+            Effect.succeed({
+              token: `ghs_${calls}`,
+              expiresAt:
+                calls === 1
+                  ? new Date(Date.now() + 2 * 60 * 1000)
+                  : MOCK_EXPIRES,
+            })
+          );
+        },
+      });
+
+      const service = makeTokenService({
+        pem: MOCK_PEM,
+        appId: MOCK_APP_ID,
+        installationId: MOCK_INSTALLATION_ID,
+        generateJwt: deps.generateJwt,
+        requestInstallationToken: deps.requestInstallationToken,
+      });
+
+      await Effect.runPromise(service.getInstallationToken());
+      const [, token] = await Effect.runPromise(
+        Effect.all(
+          [service.refreshExpiring(10 * 60 * 1000), service.getInstallationToken()],
+          { concurrency: "unbounded" }
+        )
+      );
+
+      expect(calls).toBe(2);
+      expect(token.token).toBe("ghs_2");
+    });
+  });
 });